@@ -0,0 +1,42 @@
+import express from 'express';
+import path from 'path';
+import dotenv from 'dotenv';
+import { createServer as createViteServer } from 'vite';
+import { puzzleRouter } from './server/puzzleRoutes';
+import { leaderboardRouter } from './server/leaderboardRoutes';
+import { sessionRouter } from './server/sessionRoutes';
+
+dotenv.config();
+
+async function startServer() {
+  const app = express();
+  const PORT = Number(process.env.PORT) || 3000;
+
+  app.use(express.json());
+
+  // --- API ---
+  app.use('/api/puzzles', puzzleRouter);
+  app.use('/api', leaderboardRouter);
+  app.use('/api/sessions', sessionRouter);
+
+  // --- FRONTEND ---
+  if (process.env.NODE_ENV !== 'production') {
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.join(process.cwd(), 'dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => {
+      res.sendFile(path.join(distPath, 'index.html'));
+    });
+  }
+
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`Server running on http://localhost:${PORT}`);
+  });
+}
+
+startServer();
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize, stem, checkAnswer } from './answers';
+import { PUZZLES, type Puzzle } from './puzzles';
+
+const soup = PUZZLES['tomato-soup'];
+
+// Phrases whose words mean nothing alone, to tell a phrase match from a word match
+const stew: Puzzle = {
+  ...soup,
+  id: 'stew',
+  ingredients: [
+    { name: 'potato', synonyms: ['potato', 'pomme de terre'] },
+    { name: 'garlic', synonyms: ['garlic', 'gousse d ail'] },
+  ],
+};
+
+describe('tokenize', () => {
+  it('lowercases, strips accents and splits on punctuation', () => {
+    expect(tokenize("Échalotes, l'AIL")).toEqual(['echalotes', 'l', 'ail']);
+    expect(tokenize('  basilic!!  ')).toEqual(['basilic']);
+  });
+});
+
+describe('stem', () => {
+  it('gives singular and plural the same form in both languages', () => {
+    expect(stem('tomatoes')).toBe(stem('tomato'));
+    expect(stem('tomates')).toBe(stem('tomate'));
+    expect(stem('oignons')).toBe(stem('oignon'));
+    expect(stem('poireaux')).toBe('poireau');
+  });
+
+  it('drops a trailing e only once the plural is gone', () => {
+    expect(stem('gousses')).toBe('gouss');
+    expect(stem('gousse')).toBe('gouss');
+    expect(stem('basil')).toBe('basil');
+  });
+
+  it('leaves short words alone', () => {
+    expect(stem('ail')).toBe('ail');
+    expect(stem('les')).toBe('les');
+    expect(stem('ails')).toBe('ail');
+  });
+});
+
+describe('checkAnswer', () => {
+  it('solves with every ingredient, whatever the case and accents', () => {
+    expect(checkAnswer(soup, 'TOMATE, Oignon, AIL, Basilic')).toEqual({
+      solved: true,
+      correct: 4,
+      total: 4,
+      matched: ['tomato', 'onion', 'garlic', 'basil'],
+    });
+    expect(checkAnswer(soup, 'tomate échalote ail basilic').solved).toBe(true);
+  });
+
+  it('accepts plurals', () => {
+    expect(checkAnswer(soup, 'tomatoes, onions, garlic and basil').solved).toBe(true);
+    expect(checkAnswer(soup, 'des tomates, des oignons, de l’ail et du basilic').solved).toBe(true);
+  });
+
+  it('mixes French and English synonyms', () => {
+    expect(checkAnswer(soup, 'pomodoro shallot ail basil').solved).toBe(true);
+  });
+
+  it('matches multi-word synonyms as whole phrases, in order', () => {
+    expect(checkAnswer(stew, 'des pommes de terre et deux gousses d\'ail').matched).toEqual(['potato', 'garlic']);
+    expect(checkAnswer(stew, 'terre de pomme, ail, gousse').matched).toEqual([]);
+  });
+
+  it('gives partial credit in the puzzle order', () => {
+    expect(checkAnswer(soup, 'basil and tomato, maybe cheese')).toEqual({
+      solved: false,
+      correct: 2,
+      total: 4,
+      matched: ['tomato', 'basil'],
+    });
+    expect(checkAnswer(soup, '')).toMatchObject({ solved: false, correct: 0 });
+  });
+
+  it('counts an ingredient once however often it is named', () => {
+    expect(checkAnswer(soup, 'tomato tomate tomatoes').correct).toBe(1);
+  });
+});
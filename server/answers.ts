@@ -0,0 +1,47 @@
+import type { Puzzle } from './puzzles';
+
+export type AnswerResult = {
+  solved: boolean;
+  correct: number;
+  total: number;
+  // Canonical names of the ingredients the player got right
+  matched: string[];
+};
+
+// Lowercase, strip accents and punctuation: "Échalotes, l'AIL" -> ["echalotes", "l", "ail"]
+export const tokenize = (text: string): string[] =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(w => w.length > 0);
+
+// Crude singular form shared by French and English: tomatoes/tomates/tomate -> tomat(o), poireaux -> poireau
+export const stem = (word: string): string => {
+  if (word.length <= 3) return word;
+  let w = word.replace(/(s|x)$/, '');
+  if (w.length > 3) w = w.replace(/e$/, '');
+  return w;
+};
+
+const containsPhrase = (haystack: string[], needle: string[]) => {
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    if (needle.every((w, j) => haystack[i + j] === w)) return true;
+  }
+  return false;
+};
+
+export const checkAnswer = (puzzle: Puzzle, answer: string): AnswerResult => {
+  const words = tokenize(answer).map(stem);
+  const matched = puzzle.ingredients
+    .filter(ing => ing.synonyms.some(syn => containsPhrase(words, tokenize(syn).map(stem))))
+    .map(ing => ing.name);
+
+  return {
+    solved: matched.length === puzzle.ingredients.length,
+    correct: matched.length,
+    total: puzzle.ingredients.length,
+    matched,
+  };
+};
@@ -0,0 +1,57 @@
+import crypto from 'crypto';
+import { db } from './db';
+import type { Puzzle } from './puzzles';
+
+// A run counts its wrong answers here rather than trusting the client. It gets one attempt per puzzle,
+// however often it opens the door or reloads the page. Spending every try seals the door and sends the
+// player back to the start of the level, so only then does the attempt open a fresh round of tries;
+// the wrong answers of every round still count against the run.
+const ATTEMPT_TTL = '-1 day';
+
+// Made up by the client when a run starts, see newRunId in src/api/puzzles.ts
+export const RUN_ID = /^[0-9a-f]{32}$/;
+
+const insertAttempt = db.prepare('INSERT OR IGNORE INTO puzzle_attempts (token, run_id, puzzle_id) VALUES (?, ?, ?)');
+const selectAttempt = db.prepare('SELECT token, failures, round_start AS roundStart FROM puzzle_attempts WHERE run_id = ? AND puzzle_id = ?');
+const startRound = db.prepare('UPDATE puzzle_attempts SET round_start = failures WHERE token = ?');
+const pruneAttempts = db.prepare('DELETE FROM puzzle_attempts WHERE created_at < datetime(\'now\', ?)');
+const claimAttempt = db.prepare(`
+  UPDATE puzzle_attempts SET failures = failures + 1
+  WHERE token = ? AND puzzle_id = ? AND failures - round_start < ?
+  RETURNING failures - round_start AS used
+`);
+const refundAttempt = db.prepare('UPDATE puzzle_attempts SET failures = failures - 1 WHERE token = ?');
+const sumRun = db.prepare('SELECT COUNT(*) AS puzzles, COALESCE(SUM(failures), 0) AS failures FROM puzzle_attempts WHERE run_id = ?');
+const deleteRun = db.prepare('DELETE FROM puzzle_attempts WHERE run_id = ?');
+
+/** The run's attempt at the puzzle, made on first use, and how many tries of its round are gone. */
+export const startAttempt = db.transaction((run: string, puzzle: Puzzle): { token: string, used: number } => {
+  pruneAttempts.run(ATTEMPT_TTL);
+  insertAttempt.run(crypto.randomBytes(18).toString('base64url'), run, puzzle.id);
+  const { token, failures, roundStart } = selectAttempt.get(run, puzzle.id) as { token: string, failures: number, roundStart: number };
+  if (failures - roundStart < puzzle.maxAttempts) return { token, used: failures - roundStart };
+  startRound.run(token);
+  return { token, used: 0 };
+});
+
+/**
+ * Spends one of the round's tries up front, so answers sent at once can't all use the last one, and
+ * returns how many had been used before it; null if the token is unknown or the round has none left.
+ */
+export const claimTry = (token: string, puzzle: Puzzle): number | null => {
+  const row = claimAttempt.get(token, puzzle.id, puzzle.maxAttempts) as { used: number } | undefined;
+  return row ? row.used - 1 : null;
+};
+
+// A right answer, or one that couldn't be judged, doesn't cost a try
+export const refundTry = (token: string) => {
+  refundAttempt.run(token);
+};
+
+/** How many puzzles the run tried and its wrong answers across all of them. */
+export const runAttempts = (run: string) => sumRun.get(run) as { puzzles: number, failures: number };
+
+// Once a run is on the leaderboard its attempts are spent, so it can't be posted twice
+export const closeRun = (run: string) => {
+  deleteRun.run(run);
+};
@@ -0,0 +1,95 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+const DB_PATH = process.env.DB_PATH || path.join(process.cwd(), 'data', 'hells-kitchen.db');
+
+const openDatabase = () => {
+  if (DB_PATH !== ':memory:') fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+  const db = new Database(DB_PATH);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      score INTEGER NOT NULL,
+      total_ms INTEGER NOT NULL,
+      wrong_answers INTEGER NOT NULL,
+      stir_strokes INTEGER NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+    CREATE INDEX IF NOT EXISTS runs_score ON runs (score DESC);
+    CREATE INDEX IF NOT EXISTS runs_created_at ON runs (created_at);
+
+    CREATE TABLE IF NOT EXISTS run_splits (
+      run_id INTEGER NOT NULL REFERENCES runs (id) ON DELETE CASCADE,
+      level_id TEXT NOT NULL,
+      ms INTEGER NOT NULL,
+      PRIMARY KEY (run_id, level_id)
+    );
+    CREATE INDEX IF NOT EXISTS run_splits_level ON run_splits (level_id, ms);
+
+    CREATE TABLE IF NOT EXISTS generated_puzzles (
+      id TEXT PRIMARY KEY,
+      source TEXT NOT NULL,
+      puzzle TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    -- One per run and riddle, so the server counts wrong answers rather than trusting the client.
+    -- round_start is the failure count when the current round of tries began.
+    CREATE TABLE IF NOT EXISTS puzzle_attempts (
+      token TEXT PRIMARY KEY,
+      run_id TEXT NOT NULL,
+      puzzle_id TEXT NOT NULL,
+      failures INTEGER NOT NULL DEFAULT 0,
+      round_start INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      UNIQUE (run_id, puzzle_id)
+    );
+    CREATE INDEX IF NOT EXISTS puzzle_attempts_created_at ON puzzle_attempts (created_at);
+
+    CREATE TABLE IF NOT EXISTS event_sessions (
+      code TEXT PRIMARY KEY,
+      host_token TEXT NOT NULL,
+      paused INTEGER NOT NULL DEFAULT 0,
+      -- Highest level number players may start; NULL means every level
+      unlocked INTEGER,
+      qr_url TEXT,
+      -- JSON list of { name, synonyms } replacing the riddle's answer key for this session
+      ingredients TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS session_players (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      session_code TEXT NOT NULL REFERENCES event_sessions (code) ON DELETE CASCADE,
+      token TEXT NOT NULL,
+      name TEXT NOT NULL,
+      level INTEGER NOT NULL DEFAULT 0,
+      level_id TEXT,
+      -- Run time as of reported_at; it keeps growing from there while running is set
+      elapsed_ms INTEGER NOT NULL DEFAULT 0,
+      running INTEGER NOT NULL DEFAULT 0,
+      reported_at INTEGER NOT NULL,
+      finished INTEGER NOT NULL DEFAULT 0,
+      score INTEGER,
+      wrong_answers INTEGER NOT NULL DEFAULT 0,
+      stir_strokes INTEGER NOT NULL DEFAULT 0,
+      joined_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+    CREATE INDEX IF NOT EXISTS session_players_code ON session_players (session_code);
+
+    CREATE TABLE IF NOT EXISTS session_splits (
+      player_id INTEGER NOT NULL REFERENCES session_players (id) ON DELETE CASCADE,
+      level_id TEXT NOT NULL,
+      ms INTEGER NOT NULL,
+      PRIMARY KEY (player_id, level_id)
+    );
+  `);
+  return db;
+};
+
+export const db = openDatabase();
@@ -0,0 +1,115 @@
+import express from 'express';
+import { db } from './db';
+import { computeScore, totalTime, type RunResult } from '../src/game/score';
+import { LEVELS } from '../src/levels/manifest';
+import { MAX_NAME, isCount, fieldsOf, parseSplits } from './validation';
+import { runAttempts, closeRun, RUN_ID } from './attempts';
+
+export const leaderboardRouter = express.Router();
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+
+const parseLimit = (raw: unknown) => {
+  const n = Number(raw);
+  return Number.isInteger(n) && n > 0 ? Math.min(n, MAX_LIMIT) : DEFAULT_LIMIT;
+};
+
+// Only full solo runs are ranked, so a run has a time for every shipped level and nothing else
+const RANKED_LEVELS = LEVELS.map(l => l.id);
+// ...and went through every riddle door on the server, which counted its wrong answers
+const RANKED_RIDDLES = LEVELS.filter(l => l.win.type === 'riddle').length;
+
+// Times and stir strokes are measured by the client and taken on trust; wrong answers are not
+type ClaimedRun = Omit<RunResult, 'wrongAnswers'>;
+
+const parseRun = (raw: unknown): { name: string, runId: string, claimed: ClaimedRun } | string => {
+  const body = fieldsOf(raw);
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > MAX_NAME) return `name must be 1-${MAX_NAME} characters`;
+
+  const splits = parseSplits(body.splits);
+  if (typeof splits === 'string') return splits;
+  const levelIds = Object.keys(splits);
+  if (levelIds.length !== RANKED_LEVELS.length || !RANKED_LEVELS.every(id => id in splits)) {
+    return `splits must have a time for each of ${RANKED_LEVELS.join(', ')}`;
+  }
+  if (typeof body.runId !== 'string' || !RUN_ID.test(body.runId)) return 'runId must be the id the run answered riddles under';
+  if (!isCount(body.stirStrokes)) return 'stirStrokes must be a non-negative integer';
+
+  return { name, runId: body.runId, claimed: { splits, stirStrokes: body.stirStrokes } };
+};
+
+const insertRun = db.prepare(`
+  INSERT INTO runs (name, score, total_ms, wrong_answers, stir_strokes)
+  VALUES (@name, @score, @totalMs, @wrongAnswers, @stirStrokes)
+`);
+const insertSplit = db.prepare('INSERT INTO run_splits (run_id, level_id, ms) VALUES (?, ?, ?)');
+const rankOf = db.prepare('SELECT COUNT(*) + 1 AS rank FROM runs WHERE score > ?');
+
+const saveRun = db.transaction((name: string, runId: string, run: RunResult, score: number) => {
+  const { lastInsertRowid } = insertRun.run({
+    name,
+    score,
+    totalMs: totalTime(run.splits),
+    wrongAnswers: run.wrongAnswers,
+    stirStrokes: run.stirStrokes,
+  });
+  for (const [levelId, ms] of Object.entries(run.splits)) {
+    insertSplit.run(lastInsertRowid, levelId, ms);
+  }
+  closeRun(runId);
+  return Number(lastInsertRowid);
+});
+
+// Body: { name, runId, splits: { [levelId]: ms }, stirStrokes }. The score is always recomputed here, with
+// the wrong answers the server counted for the run; posting a run spends its attempts.
+leaderboardRouter.post('/runs', (req, res) => {
+  const parsed = parseRun(req.body);
+  if (typeof parsed === 'string') return res.status(400).json({ error: parsed });
+  const { puzzles, failures } = runAttempts(parsed.runId);
+  if (puzzles < RANKED_RIDDLES) return res.status(400).json({ error: 'No riddle answers on record for this run' });
+
+  const run: RunResult = { ...parsed.claimed, wrongAnswers: failures };
+  const score = computeScore(run);
+  const id = saveRun(parsed.name, parsed.runId, run, score);
+  const { rank } = rankOf.get(score) as { rank: number };
+  res.status(201).json({ id, score, rank });
+});
+
+const selectRuns = `
+  SELECT id, name, score, total_ms AS totalMs, wrong_answers AS wrongAnswers, stir_strokes AS stirStrokes, created_at AS createdAt
+  FROM runs
+`;
+const topOverall = db.prepare(`${selectRuns} ORDER BY score DESC, total_ms ASC LIMIT ?`);
+const topOnDay = db.prepare(`${selectRuns} WHERE date(created_at) = ? ORDER BY score DESC, total_ms ASC LIMIT ?`);
+const topSplits = db.prepare(`
+  SELECT level_id AS levelId, name, ms, created_at AS createdAt
+  FROM (
+    SELECT s.level_id, r.name, s.ms, r.created_at,
+           ROW_NUMBER() OVER (PARTITION BY s.level_id ORDER BY s.ms ASC) AS position
+    FROM run_splits s JOIN runs r ON r.id = s.run_id
+  )
+  WHERE position <= ?
+  ORDER BY level_id, ms
+`);
+
+leaderboardRouter.get('/leaderboard/overall', (req, res) => {
+  res.json({ entries: topOverall.all(parseLimit(req.query.limit)) });
+});
+
+// ?day=YYYY-MM-DD (UTC), defaults to today
+leaderboardRouter.get('/leaderboard/daily', (req, res) => {
+  const day = typeof req.query.day === 'string' ? req.query.day : new Date().toISOString().slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) return res.status(400).json({ error: 'day must be YYYY-MM-DD' });
+  res.json({ day, entries: topOnDay.all(day, parseLimit(req.query.limit)) });
+});
+
+leaderboardRouter.get('/leaderboard/levels', (req, res) => {
+  const rows = topSplits.all(parseLimit(req.query.limit ?? 5)) as { levelId: string, name: string, ms: number, createdAt: string }[];
+  const levels: Record<string, { name: string, ms: number, createdAt: string }[]> = {};
+  for (const { levelId, ...entry } of rows) {
+    (levels[levelId] ??= []).push(entry);
+  }
+  res.json({ levels });
+});
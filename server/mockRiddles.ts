@@ -0,0 +1,103 @@
+// Offline stand-in for the Gemini riddle service: the same id always gives the same puzzle, and answers
+// are judged by the synonym matcher alone. Used whenever no GEMINI_API_KEY is configured.
+import { checkAnswer } from './answers';
+import type { Ingredient, Puzzle } from './puzzles';
+import type { RiddleService } from './riddleService';
+
+type MockIngredient = Ingredient & { clue: string, hint: string };
+
+const INGREDIENTS: Record<string, MockIngredient> = {
+  tomato: {
+    name: 'tomato',
+    synonyms: ['tomato', 'tomate', 'pomodoro'],
+    clue: 'I wear a green crown and blush as red as the lava. A fruit, they say, yet I end up in your soup.',
+    hint: 'The soup is as red as the lava.',
+  },
+  onion: {
+    name: 'onion',
+    synonyms: ['onion', 'oignon', 'shallot', 'echalote', 'cipolla'],
+    clue: 'I have layers but no secrets. Cut me open and you will weep.',
+    hint: 'It cries when you cut it.',
+  },
+  garlic: {
+    name: 'garlic',
+    synonyms: ['garlic', 'ail', 'aglio', 'garlic clove', 'gousse d ail'],
+    clue: 'A head of cloves with no body at all. Vampires flee when I come to call.',
+    hint: 'Vampires fear it, demons love it.',
+  },
+  basil: {
+    name: 'basil',
+    synonyms: ['basil', 'basilic', 'basilico'],
+    clue: 'A sweet green leaf, the pride of Italy. On a Margherita I rest beside the cheese.',
+    hint: 'A green leaf the Italians put on pizza.',
+  },
+  pumpkin: {
+    name: 'pumpkin',
+    synonyms: ['pumpkin', 'squash', 'citrouille', 'potiron', 'courge', 'zucca'],
+    clue: 'Round and orange, I grin with a candle inside on the scariest night of the year.',
+    hint: 'Carved with a face every autumn.',
+  },
+  carrot: {
+    name: 'carrot',
+    synonyms: ['carrot', 'carotte', 'carota'],
+    clue: 'I grow head-down in the dark soil, orange as a flame. Rabbits adore me.',
+    hint: 'A rabbit\'s favourite.',
+  },
+  chili: {
+    name: 'chili',
+    synonyms: ['chili', 'chilli', 'chile', 'pepper', 'piment', 'peperoncino'],
+    clue: 'Small and red, I set tongues on fire. Even the devils respect my heat.',
+    hint: 'Hotter than the lava.',
+  },
+  potato: {
+    name: 'potato',
+    synonyms: ['potato', 'pomme de terre', 'patate', 'patata'],
+    clue: 'I have many eyes but cannot see. Mashed, fried or baked, I please.',
+    hint: 'Chips and fries are made from it.',
+  },
+  leek: {
+    name: 'leek',
+    synonyms: ['leek', 'poireau', 'porro'],
+    clue: 'A giant green onion with a long white neck. The Welsh wear me proudly.',
+    hint: 'A long, mild cousin of the onion.',
+  },
+  thyme: {
+    name: 'thyme',
+    synonyms: ['thyme', 'thym', 'timo'],
+    clue: 'I sound like what a clock keeps, yet I am a tiny leaf in your stew.',
+    hint: 'It sounds like the clock.',
+  },
+};
+
+const DISHES: { title: string, ingredients: string[] }[] = [
+  { title: 'TOMATO SOUP', ingredients: ['tomato', 'onion', 'garlic', 'basil'] },
+  { title: 'PUMPKIN STEW', ingredients: ['pumpkin', 'carrot', 'onion', 'thyme'] },
+  { title: 'INFERNO CHILI', ingredients: ['chili', 'tomato', 'garlic', 'onion'] },
+  { title: 'LEEK AND POTATO SOUP', ingredients: ['leek', 'potato', 'onion', 'thyme'] },
+];
+
+// FNV-1a, so every id maps to the same dish on every machine
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  return h >>> 0;
+};
+
+export const mockPuzzle = (id: string): Puzzle => {
+  const dish = DISHES[hash(id) % DISHES.length];
+  const ingredients = dish.ingredients.map(name => INGREDIENTS[name]);
+  return {
+    id,
+    title: dish.title,
+    maxAttempts: 5,
+    clues: ingredients.map(ing => ing.clue),
+    ingredients: ingredients.map(({ name, synonyms }) => ({ name, synonyms })),
+    hints: ingredients.map(ing => ing.hint),
+  };
+};
+
+export const mockRiddleService: RiddleService = {
+  name: 'mock',
+  generatePuzzle: async (id) => mockPuzzle(id),
+  judgeAnswer: async (puzzle, answer) => checkAnswer(puzzle, answer),
+};
@@ -0,0 +1,74 @@
+import express from 'express';
+import { getPuzzle } from './puzzleStore';
+import { startAttempt, claimTry, refundTry, RUN_ID } from './attempts';
+import { getRiddleService } from './riddleService';
+
+export const puzzleRouter = express.Router();
+
+// Public info about a puzzle: enough to render the prompt and the clue page, never the answers.
+// `id` is the concrete puzzle, which differs from the requested one for 'daily'.
+puzzleRouter.get('/:id', async (req, res) => {
+  try {
+    const puzzle = await getPuzzle(req.params.id);
+    if (!puzzle) return res.status(404).json({ error: 'Unknown puzzle' });
+    res.json({
+      id: puzzle.id,
+      title: puzzle.title,
+      clues: puzzle.clues,
+      total: puzzle.ingredients.length,
+      maxAttempts: puzzle.maxAttempts,
+    });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Could not load the puzzle' });
+  }
+});
+
+// Body: { run: string }, sent when the door opens. Answers must carry the returned token; asking again
+// in the same run returns the same one, with the tries and hints its round has left.
+puzzleRouter.post('/:id/attempts', async (req, res) => {
+  const { run } = req.body ?? {};
+  if (typeof run !== 'string' || !RUN_ID.test(run)) return res.status(400).json({ error: 'Expected { run: string }' });
+
+  try {
+    const puzzle = await getPuzzle(req.params.id);
+    if (!puzzle) return res.status(404).json({ error: 'Unknown puzzle' });
+    const { token, used } = startAttempt(run, puzzle);
+    res.json({ attempt: token, attemptsLeft: puzzle.maxAttempts - used, hints: puzzle.hints.slice(0, used) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Could not start an attempt' });
+  }
+});
+
+// Body: { answer: string, attempt: string } with the token from POST /:id/attempts
+puzzleRouter.post('/:id/answer', async (req, res) => {
+  const { answer, attempt } = req.body ?? {};
+  if (typeof answer !== 'string' || typeof attempt !== 'string') {
+    return res.status(400).json({ error: 'Expected { answer: string, attempt: string }' });
+  }
+
+  let claimed = false;
+  try {
+    const puzzle = await getPuzzle(req.params.id);
+    if (!puzzle) return res.status(404).json({ error: 'Unknown puzzle' });
+    const failures = claimTry(attempt, puzzle);
+    if (failures === null) {
+      return res.status(409).json({ error: 'No attempts left' });
+    }
+    claimed = true;
+
+    const result = await getRiddleService().judgeAnswer(puzzle, answer);
+    if (result.solved) refundTry(attempt);
+    const failed = result.solved ? failures : failures + 1;
+    res.json({
+      ...result,
+      attemptsLeft: puzzle.maxAttempts - failed,
+      hints: puzzle.hints.slice(0, failed),
+    });
+  } catch (err) {
+    if (claimed) refundTry(attempt);
+    console.error(err);
+    res.status(500).json({ error: 'Could not check the answer' });
+  }
+});
@@ -0,0 +1,59 @@
+import { db } from './db';
+import { PUZZLES, type Puzzle } from './puzzles';
+import { getRiddleService } from './riddleService';
+import { mockRiddleService } from './mockRiddles';
+import { withSession, SESSION_SEPARATOR } from './sessions';
+
+// A level that asks for this puzzle gets the day's generated one, e.g. 'daily' -> 'daily-2026-10-19'
+export const DAILY = 'daily';
+const DAILY_ID = /^daily-\d{4}-\d{2}-\d{2}$/;
+
+const selectPuzzle = db.prepare('SELECT puzzle FROM generated_puzzles WHERE id = ?');
+const insertPuzzle = db.prepare('INSERT OR IGNORE INTO generated_puzzles (id, source, puzzle) VALUES (?, ?, ?)');
+
+// Generation can take seconds; players opening the door at once share one request
+const pending = new Map<string, Promise<Puzzle>>();
+
+const todayId = () => `${DAILY}-${new Date().toISOString().slice(0, 10)}`;
+
+const generate = async (id: string): Promise<Puzzle> => {
+  const service = getRiddleService();
+  let puzzle: Puzzle;
+  let source = service.name;
+  try {
+    puzzle = await service.generatePuzzle(id);
+  } catch (err) {
+    console.warn(`Could not generate puzzle ${id}, using the mock instead`, err);
+    puzzle = await mockRiddleService.generatePuzzle(id);
+    source = mockRiddleService.name;
+  }
+  insertPuzzle.run(id, source, JSON.stringify(puzzle));
+  return puzzle;
+};
+
+/**
+ * Looks up a hand-written puzzle or a generated one. Generated puzzles are cached in SQLite so the door,
+ * the clue page and later answers all see the same riddles; only today's can be generated fresh.
+ * An id ending in '@<session code>' is that puzzle with the event session's answer key.
+ */
+export const getPuzzle = async (requested: string): Promise<Puzzle | null> => {
+  const at = requested.lastIndexOf(SESSION_SEPARATOR);
+  if (at >= 0) {
+    const base = await getPuzzle(requested.slice(0, at));
+    return base && withSession(base, requested.slice(at + 1));
+  }
+  const id = requested === DAILY ? todayId() : requested;
+  if (PUZZLES[id]) return PUZZLES[id];
+  if (!DAILY_ID.test(id)) return null;
+
+  const cached = selectPuzzle.get(id) as { puzzle: string } | undefined;
+  if (cached) return JSON.parse(cached.puzzle);
+  if (id !== todayId()) return null;
+
+  let job = pending.get(id);
+  if (!job) {
+    job = generate(id).finally(() => pending.delete(id));
+    pending.set(id, job);
+  }
+  return job;
+};
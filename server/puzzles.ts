@@ -0,0 +1,40 @@
+// Answer keys for the door riddles. These stay on the server so they can't be read from the client bundle.
+
+export type Ingredient = { name: string, synonyms: string[] };
+
+export type Puzzle = {
+  id: string;
+  title: string;
+  // One riddle per ingredient, shown on the clue page the door's QR code links to
+  clues: string[];
+  ingredients: Ingredient[];
+  maxAttempts: number;
+  // Revealed one at a time, one per failed attempt
+  hints: string[];
+};
+
+export const PUZZLES: Record<string, Puzzle> = {
+  'tomato-soup': {
+    id: 'tomato-soup',
+    title: 'TOMATO SOUP',
+    maxAttempts: 5,
+    clues: [
+      'I wear a green crown and blush as red as the lava. A fruit, they say, yet I end up in your soup.',
+      'I have layers but no secrets. Cut me open and you will weep.',
+      'A head of cloves with no body at all. Vampires flee when I come to call.',
+      'A sweet green leaf, the pride of Italy. On a Margherita I rest beside the cheese.',
+    ],
+    ingredients: [
+      { name: 'tomato', synonyms: ['tomato', 'tomate', 'pomodoro'] },
+      { name: 'onion', synonyms: ['onion', 'oignon', 'shallot', 'echalote'] },
+      { name: 'garlic', synonyms: ['garlic', 'ail', 'garlic clove', 'gousse d ail'] },
+      { name: 'basil', synonyms: ['basil', 'basilic'] },
+    ],
+    hints: [
+      'The soup is as red as the lava.',
+      'It cries when you cut it.',
+      'Vampires fear it, demons love it.',
+      'A green leaf the Italians put on pizza.',
+    ],
+  },
+};
@@ -0,0 +1,24 @@
+import type { Puzzle } from './puzzles';
+import type { AnswerResult } from './answers';
+import { mockRiddleService } from './mockRiddles';
+import { createGeminiRiddleService } from './geminiRiddles';
+
+// Writes door riddles and judges what players type at the door
+export type RiddleService = {
+  // Stored next to cached puzzles so it's clear which ones came from the model
+  name: string;
+  generatePuzzle: (id: string) => Promise<Puzzle>;
+  judgeAnswer: (puzzle: Puzzle, answer: string) => Promise<AnswerResult>;
+};
+
+let service: RiddleService | null = null;
+
+// Chosen on first use rather than at import, so it sees the .env loaded by server.ts
+export const getRiddleService = (): RiddleService => {
+  if (!service) {
+    const key = process.env.GEMINI_API_KEY;
+    service = key && key !== 'MY_GEMINI_API_KEY' ? createGeminiRiddleService(key) : mockRiddleService;
+    console.log(`Riddles: using the ${service.name} service`);
+  }
+  return service;
+};
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { sessionRouter } from './sessionRoutes';
+
+// Runs before the imports, so the routes open a throwaway database
+vi.hoisted(() => { process.env.DB_PATH = ':memory:'; });
+
+let server: Server;
+let base = '';
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/sessions', sessionRouter);
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/sessions`;
+});
+
+afterAll(() => new Promise(resolve => server.close(resolve)));
+
+const post = (path: string, body: unknown, headers: Record<string, string> = {}) => fetch(`${base}${path}`, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', ...headers },
+  body: JSON.stringify(body),
+});
+
+const newSession = async () => (await (await post('', {})).json()) as { code: string, hostToken: string };
+
+const join = async (code: string, name: string) => (await (await post(`/${code}/players`, { name })).json()) as { id: number, token: string };
+
+describe('host routes', () => {
+  it('let the host in with their token', async () => {
+    const { code, hostToken } = await newSession();
+    expect((await fetch(`${base}/${code}/host`, { headers: { 'X-Host-Token': hostToken } })).status).toBe(200);
+    expect((await fetch(`${base}/${code}/host?token=${hostToken}`)).status).toBe(200);
+  });
+
+  it.each([
+    ['a wrong token', 'not-the-token'],
+    ['an odd-length token', 'abc'],
+    ['an empty token', ''],
+  ])('turn away %s with a 403', async (_, token) => {
+    const { code } = await newSession();
+    expect((await fetch(`${base}/${code}/host`, { headers: { 'X-Host-Token': token } })).status).toBe(403);
+    expect((await post(`/${code}/settings`, { paused: true }, { 'X-Host-Token': token })).status).toBe(403);
+  });
+
+  it('turn away another session\'s host', async () => {
+    const { code } = await newSession();
+    const other = await newSession();
+    expect((await fetch(`${base}/${code}/host`, { headers: { 'X-Host-Token': other.hostToken } })).status).toBe(403);
+  });
+
+  it('say when the session does not exist', async () => {
+    const { hostToken } = await newSession();
+    expect((await fetch(`${base}/NOPE0/host`, { headers: { 'X-Host-Token': hostToken } })).status).toBe(404);
+  });
+});
+
+describe('settings', () => {
+  it('apply a valid patch', async () => {
+    const { code, hostToken } = await newSession();
+    const res = await post(`/${code}/settings`, {
+      paused: true,
+      unlocked: 3,
+      qrUrl: 'https://example.com/clues',
+      ingredients: [{ name: ' Tomato ', synonyms: ['Tomate', 'tomato'] }],
+    }, { 'X-Host-Token': hostToken });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      paused: true,
+      unlocked: 3,
+      qrUrl: 'https://example.com/clues',
+      ingredients: [{ name: 'tomato', synonyms: ['tomato', 'tomate'] }],
+    });
+  });
+
+  it.each([
+    [{ paused: 'yes' }, 'paused must be a boolean'],
+    [{ unlocked: 0 }, 'unlocked must be null or a level number'],
+    [{ unlocked: 1.5 }, 'unlocked must be null or a level number'],
+    [{ qrUrl: 'javascript:alert(1)' }, 'qrUrl must be null or an http(s) URL'],
+    [{ qrUrl: `https://example.com/${'a'.repeat(500)}` }, 'qrUrl must be null or an http(s) URL'],
+    [{ ingredients: [] }, 'ingredients must be null or 1-12 ingredients'],
+    [{ ingredients: 'tomato' }, 'ingredients must be null or 1-12 ingredients'],
+    [{ ingredients: Array.from({ length: 13 }, (_, i) => ({ name: `item${i}` })) }, 'ingredients must be null or 1-12 ingredients'],
+    [{ ingredients: [{ synonyms: ['tomate'] }] }, 'every ingredient needs a name'],
+    [{ ingredients: [{ name: 'x'.repeat(41) }] }, 'every ingredient needs a name'],
+    [{ ingredients: [{ name: 'tomato', synonyms: ['tomate', 3] }] }, 'invalid synonyms for "tomato"'],
+    [{ ingredients: [{ name: 'tomato', synonyms: [' '] }] }, 'invalid synonyms for "tomato"'],
+  ])('reject %j with a 400', async (patch, error) => {
+    const { code, hostToken } = await newSession();
+    const res = await post(`/${code}/settings`, patch, { 'X-Host-Token': hostToken });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error });
+  });
+});
+
+describe('progress reports', () => {
+  const report = { level: 2, levelId: 'level2', elapsedMs: 61_000, running: true, finished: false, splits: { level1: 30_000 }, wrongAnswers: 1, stirStrokes: 12 };
+
+  it('are taken from the player', async () => {
+    const { code } = await newSession();
+    const { id, token } = await join(code, 'Remy');
+    expect((await post(`/${code}/players/${id}/progress`, { ...report, token })).status).toBe(204);
+  });
+
+  it('are refused without the player\'s token', async () => {
+    const { code } = await newSession();
+    const { id } = await join(code, 'Remy');
+    expect((await post(`/${code}/players/${id}/progress`, { ...report, token: 'guess' })).status).toBe(403);
+  });
+
+  it.each([
+    [{ level: -1 }, 'level must be a non-negative integer'],
+    [{ levelId: '../etc' }, 'levelId must be null or a level id'],
+    [{ elapsedMs: '61000' }, 'elapsedMs must be a non-negative integer'],
+    [{ running: 1 }, 'running and finished must be booleans'],
+    [{ splits: [30_000] }, 'splits must map level ids to times'],
+    [{ splits: { level1: 0 } }, 'invalid split for "level1"'],
+    [{ wrongAnswers: -2 }, 'wrongAnswers must be a non-negative integer'],
+    [{ stirStrokes: 0.5 }, 'stirStrokes must be a non-negative integer'],
+  ])('reject %j with a 400', async (change, error) => {
+    const { code } = await newSession();
+    const { id, token } = await join(code, 'Remy');
+    const res = await post(`/${code}/players/${id}/progress`, { ...report, ...change, token });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error });
+  });
+});
+
+// First cell of every row but the header; names never hold a line break here
+const csvNames = async (code: string, hostToken: string) => {
+  const res = await fetch(`${base}/${code}/results.csv`, { headers: { 'X-Host-Token': hostToken } });
+  expect(res.status).toBe(200);
+  return (await res.text()).trim().split('\r\n').slice(1).map(line => line.match(/^("(?:[^"]|"")*"|[^,]*)/)![1]);
+};
+
+describe('results.csv', () => {
+  it('defuses names a spreadsheet would run as a formula', async () => {
+    const { code, hostToken } = await newSession();
+    for (const name of ['=1+1', '+SUM(A1)', '-2', '@cmd', 'Remy, "chef"', 'Linguini']) await join(code, name);
+    expect((await csvNames(code, hostToken)).sort()).toEqual(["'+SUM(A1)", "'-2", "'=1+1", "'@cmd", '"Remy, ""chef"""', 'Linguini'].sort());
+  });
+});
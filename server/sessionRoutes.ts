@@ -0,0 +1,194 @@
+import express from 'express';
+import {
+  createSession, getSettings, configOf, isHost, updateSettings, joinSession, isPlayer, reportProgress, listPlayers, resultsCsv,
+  type SessionSettings, type SettingsPatch, type ProgressReport,
+} from './sessions';
+import type { Ingredient } from './puzzles';
+import { MAX_NAME, isCount, fieldsOf, parseSplits } from './validation';
+
+export const sessionRouter = express.Router();
+
+const MAX_INGREDIENTS = 12;
+const MAX_SYNONYM = 40;
+const MAX_URL = 500;
+// Proxies drop idle streams, so each one gets a comment this often
+const KEEPALIVE_MS = 20_000;
+
+// --- LIVE UPDATES ---
+// Server-sent events: the host's dashboard gets the whole session on every change, players only its config
+type Stream = { write: (data: unknown) => void };
+
+const hostStreams = new Map<string, Set<Stream>>();
+const playerStreams = new Map<string, Set<Stream>>();
+// Open streams per player id, for the dashboard's connected dot
+const connections = new Map<number, number>();
+
+const openStream = (req: express.Request, res: express.Response, streams: Map<string, Set<Stream>>, code: string, onClose?: () => void) => {
+  res.set({ 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+  res.flushHeaders();
+  const stream: Stream = { write: data => res.write(`data: ${JSON.stringify(data)}\n\n`) };
+  const keepalive = setInterval(() => res.write(': keepalive\n\n'), KEEPALIVE_MS);
+  const set = streams.get(code) ?? new Set();
+  streams.set(code, set.add(stream));
+  req.on('close', () => {
+    clearInterval(keepalive);
+    set.delete(stream);
+    if (set.size === 0) streams.delete(code);
+    onClose?.();
+  });
+  return stream;
+};
+
+const hostView = (settings: SessionSettings) => ({
+  settings,
+  players: listPlayers(settings.code, settings.paused).map(p => ({ ...p, connected: (connections.get(p.id) ?? 0) > 0 })),
+});
+
+const notifyHosts = (code: string) => {
+  const streams = hostStreams.get(code);
+  const settings = getSettings(code);
+  if (!streams || !settings) return;
+  const view = hostView(settings);
+  streams.forEach(s => s.write(view));
+};
+
+const notifyPlayers = (settings: SessionSettings) => {
+  const config = configOf(settings);
+  playerStreams.get(settings.code)?.forEach(s => s.write(config));
+};
+
+// --- PARSING ---
+const parseIngredients = (raw: unknown): Ingredient[] | null | string => {
+  if (raw === null) return null;
+  if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_INGREDIENTS) return `ingredients must be null or 1-${MAX_INGREDIENTS} ingredients`;
+  const ingredients: Ingredient[] = [];
+  for (const it of raw) {
+    const fields = fieldsOf(it);
+    const name = typeof fields.name === 'string' ? fields.name.trim().toLowerCase() : '';
+    const synonyms: unknown[] = Array.isArray(fields.synonyms) ? fields.synonyms : [];
+    if (!name || name.length > MAX_SYNONYM) return 'every ingredient needs a name';
+    const words = synonyms.filter((s): s is string => typeof s === 'string' && s.trim().length > 0 && s.length <= MAX_SYNONYM);
+    if (words.length !== synonyms.length) return `invalid synonyms for "${name}"`;
+    // The name always counts as an answer
+    ingredients.push({ name, synonyms: [...new Set([name, ...words.map(s => s.trim().toLowerCase())])] });
+  }
+  return ingredients;
+};
+
+const parsePatch = (raw: unknown): SettingsPatch | string => {
+  const { paused, unlocked, qrUrl, ingredients } = fieldsOf(raw);
+  const patch: SettingsPatch = {};
+  if (paused !== undefined) {
+    if (typeof paused !== 'boolean') return 'paused must be a boolean';
+    patch.paused = paused;
+  }
+  if (unlocked !== undefined) {
+    if (unlocked === null) patch.unlocked = null;
+    else if (isCount(unlocked) && unlocked > 0) patch.unlocked = unlocked;
+    else return 'unlocked must be null or a level number';
+  }
+  if (qrUrl !== undefined) {
+    if (qrUrl === null) patch.qrUrl = null;
+    else if (typeof qrUrl === 'string' && /^https?:\/\//.test(qrUrl) && qrUrl.length <= MAX_URL) patch.qrUrl = qrUrl;
+    else return 'qrUrl must be null or an http(s) URL';
+  }
+  if (ingredients !== undefined) {
+    const parsed = parseIngredients(ingredients);
+    if (typeof parsed === 'string') return parsed;
+    patch.ingredients = parsed;
+  }
+  return patch;
+};
+
+const parseProgress = (raw: unknown): ProgressReport | string => {
+  const { level, levelId, elapsedMs, running, finished, splits: rawSplits, wrongAnswers, stirStrokes } = fieldsOf(raw);
+  if (!isCount(level)) return 'level must be a non-negative integer';
+  const id = typeof levelId === 'string' && /^[\w-]+$/.test(levelId) ? levelId : null;
+  if (levelId !== null && id === null) return 'levelId must be null or a level id';
+  if (!isCount(elapsedMs)) return 'elapsedMs must be a non-negative integer';
+  if (typeof running !== 'boolean' || typeof finished !== 'boolean') return 'running and finished must be booleans';
+  const splits = parseSplits(rawSplits);
+  if (typeof splits === 'string') return splits;
+  if (!isCount(wrongAnswers)) return 'wrongAnswers must be a non-negative integer';
+  if (!isCount(stirStrokes)) return 'stirStrokes must be a non-negative integer';
+  return { level, levelId: id, elapsedMs, running, finished, splits, wrongAnswers, stirStrokes };
+};
+
+// Host calls carry the token from session creation, in a header or, for links and EventSource, the query
+const hostToken = (req: express.Request) => req.get('X-Host-Token') ?? req.query.token;
+
+const requireHost: express.RequestHandler = (req, res, next) => {
+  if (!getSettings(req.params.code)) return res.status(404).json({ error: 'Unknown session' });
+  if (!isHost(req.params.code, hostToken(req))) return res.status(403).json({ error: 'Not the host of this session' });
+  next();
+};
+
+// --- HOST ---
+sessionRouter.post('/', (_req, res) => {
+  res.status(201).json(createSession());
+});
+
+sessionRouter.get('/:code/host', requireHost, (req, res) => {
+  res.json(hostView(getSettings(req.params.code)!));
+});
+
+sessionRouter.get('/:code/host/stream', requireHost, (req, res) => {
+  const settings = getSettings(req.params.code)!;
+  openStream(req, res, hostStreams, settings.code).write(hostView(settings));
+});
+
+// Body: any of { paused, unlocked, qrUrl, ingredients }; null clears a setting back to the level's own
+sessionRouter.post('/:code/settings', requireHost, (req, res) => {
+  const patch = parsePatch(req.body);
+  if (typeof patch === 'string') return res.status(400).json({ error: patch });
+  const settings = updateSettings(req.params.code, patch);
+  notifyPlayers(settings);
+  notifyHosts(settings.code);
+  res.json(settings);
+});
+
+sessionRouter.get('/:code/results.csv', requireHost, (req, res) => {
+  const settings = getSettings(req.params.code)!;
+  res.set('Content-Disposition', `attachment; filename="hells-kitchen-${settings.code}.csv"`);
+  res.type('text/csv').send(resultsCsv(settings.code, settings.paused));
+});
+
+// --- PLAYERS ---
+// Body: { name }
+sessionRouter.post('/:code/players', (req, res) => {
+  const settings = getSettings(req.params.code);
+  if (!settings) return res.status(404).json({ error: 'Unknown session' });
+  const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+  if (!name || name.length > MAX_NAME) return res.status(400).json({ error: `name must be 1-${MAX_NAME} characters` });
+
+  const player = joinSession(settings.code, name);
+  notifyHosts(settings.code);
+  res.status(201).json({ ...player, config: configOf(settings) });
+});
+
+// Body: { token, level, levelId, elapsedMs, running, finished, splits, wrongAnswers, stirStrokes }
+sessionRouter.post('/:code/players/:id/progress', (req, res) => {
+  const id = Number(req.params.id);
+  if (!isPlayer(req.params.code, id, req.body?.token)) return res.status(403).json({ error: 'Not a player in this session' });
+  const report = parseProgress(req.body);
+  if (typeof report === 'string') return res.status(400).json({ error: report });
+
+  reportProgress(id, report);
+  notifyHosts(getSettings(req.params.code)!.code);
+  res.status(204).end();
+});
+
+// ?player=<id>&token=<token>; the open stream is what the dashboard shows as connected
+sessionRouter.get('/:code/stream', (req, res) => {
+  const id = Number(req.query.player);
+  if (!isPlayer(req.params.code, id, req.query.token)) return res.status(403).json({ error: 'Not a player in this session' });
+  const settings = getSettings(req.params.code)!;
+
+  connections.set(id, (connections.get(id) ?? 0) + 1);
+  openStream(req, res, playerStreams, settings.code, () => {
+    connections.set(id, connections.get(id)! - 1);
+    if (connections.get(id) === 0) connections.delete(id);
+    notifyHosts(settings.code);
+  }).write(configOf(settings));
+  notifyHosts(settings.code);
+});
@@ -0,0 +1,239 @@
+import crypto from 'crypto';
+import { db } from './db';
+import type { Ingredient, Puzzle } from './puzzles';
+import { computeScore, totalTime, type RunResult } from '../src/game/score';
+
+// --- TYPES ---
+// What every player's game follows; safe to send to anyone in the session
+export type SessionConfig = {
+  code: string;
+  paused: boolean;
+  // Highest level number players may start, or null for all of them
+  unlocked: number | null;
+  qrUrl: string | null;
+};
+
+// The host also sees the answer key they set
+export type SessionSettings = SessionConfig & { ingredients: Ingredient[] | null };
+
+export type SettingsPatch = Partial<Omit<SessionSettings, 'code'>>;
+
+export type ProgressReport = RunResult & {
+  level: number;
+  levelId: string | null;
+  // Run time so far, and whether it is still counting on the player's screen
+  elapsedMs: number;
+  running: boolean;
+  finished: boolean;
+};
+
+export type PlayerStatus = {
+  id: number;
+  name: string;
+  level: number;
+  levelId: string | null;
+  elapsedMs: number;
+  running: boolean;
+  finished: boolean;
+  score: number | null;
+  wrongAnswers: number;
+  stirStrokes: number;
+  splits: Record<string, number>;
+  joinedAt: string;
+};
+
+type SessionRow = { code: string, host_token: string, paused: number, unlocked: number | null, qr_url: string | null, ingredients: string | null };
+
+type PlayerRow = {
+  id: number;
+  name: string;
+  level: number;
+  level_id: string | null;
+  elapsed_ms: number;
+  running: number;
+  reported_at: number;
+  finished: number;
+  score: number | null;
+  wrong_answers: number;
+  stir_strokes: number;
+  joined_at: string;
+};
+
+// --- SESSIONS ---
+// No 0/O or 1/I, so a code read off a projector can't be mistyped
+const CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 5;
+
+const selectSession = db.prepare('SELECT * FROM event_sessions WHERE code = ?');
+const insertSession = db.prepare('INSERT INTO event_sessions (code, host_token) VALUES (?, ?)');
+const updateSession = db.prepare(`
+  UPDATE event_sessions SET paused = @paused, unlocked = @unlocked, qr_url = @qrUrl, ingredients = @ingredients WHERE code = @code
+`);
+
+const newToken = () => crypto.randomBytes(18).toString('base64url');
+
+const newCode = () => Array.from(crypto.randomBytes(CODE_LENGTH), b => CODE_CHARS[b % CODE_CHARS.length]).join('');
+
+export const normalizeCode = (code: string) => code.trim().toUpperCase();
+
+const findSession = (code: string) => selectSession.get(normalizeCode(code)) as SessionRow | undefined;
+
+const settingsOf = (row: SessionRow): SessionSettings => ({
+  code: row.code,
+  paused: row.paused === 1,
+  unlocked: row.unlocked,
+  qrUrl: row.qr_url,
+  ingredients: row.ingredients ? JSON.parse(row.ingredients) : null,
+});
+
+export const configOf = ({ code, paused, unlocked, qrUrl }: SessionSettings): SessionConfig => ({ code, paused, unlocked, qrUrl });
+
+export const createSession = () => {
+  for (;;) {
+    const code = newCode();
+    if (findSession(code)) continue;
+    const hostToken = newToken();
+    insertSession.run(code, hostToken);
+    return { code, hostToken };
+  }
+};
+
+export const getSettings = (code: string): SessionSettings | null => {
+  const row = findSession(code);
+  return row ? settingsOf(row) : null;
+};
+
+// Tokens are compared in constant time; they are the only thing standing between a player and the host's controls.
+// Digests have the same length whatever was sent, which timingSafeEqual needs.
+const digest = (token: string) => crypto.createHash('sha256').update(token).digest();
+
+const sameToken = (a: string, b: string) => crypto.timingSafeEqual(digest(a), digest(b));
+
+export const isHost = (code: string, token: unknown) => {
+  const row = findSession(code);
+  return !!row && typeof token === 'string' && sameToken(row.host_token, token);
+};
+
+// Pausing banks everyone's running time so far, and resuming restarts the count from now
+const bankTime = db.prepare(`
+  UPDATE session_players SET elapsed_ms = elapsed_ms + running * (@now - reported_at), reported_at = @now
+  WHERE session_code = @code AND finished = 0
+`);
+const restartClocks = db.prepare('UPDATE session_players SET reported_at = @now WHERE session_code = @code');
+
+export const updateSettings = db.transaction((code: string, patch: SettingsPatch): SessionSettings => {
+  const current = getSettings(code)!;
+  const next = { ...current, ...patch };
+  if (next.paused !== current.paused) (next.paused ? bankTime : restartClocks).run({ code: current.code, now: Date.now() });
+  updateSession.run({
+    code: current.code,
+    paused: next.paused ? 1 : 0,
+    unlocked: next.unlocked,
+    qrUrl: next.qrUrl,
+    ingredients: next.ingredients ? JSON.stringify(next.ingredients) : null,
+  });
+  return next;
+});
+
+// --- PLAYERS ---
+const insertPlayer = db.prepare('INSERT INTO session_players (session_code, token, name, reported_at) VALUES (?, ?, ?, ?)');
+const selectPlayerToken = db.prepare('SELECT token FROM session_players WHERE id = ? AND session_code = ?');
+const selectPlayers = db.prepare('SELECT * FROM session_players WHERE session_code = ? ORDER BY id');
+const selectSplits = db.prepare(`
+  SELECT s.player_id AS playerId, s.level_id AS levelId, s.ms FROM session_splits s
+  JOIN session_players p ON p.id = s.player_id WHERE p.session_code = ?
+`);
+const updatePlayer = db.prepare(`
+  UPDATE session_players SET level = @level, level_id = @levelId, elapsed_ms = @elapsedMs, running = @running,
+    reported_at = @now, finished = @finished, score = @score, wrong_answers = @wrongAnswers, stir_strokes = @stirStrokes
+  WHERE id = @id
+`);
+const upsertSplit = db.prepare('INSERT OR REPLACE INTO session_splits (player_id, level_id, ms) VALUES (?, ?, ?)');
+
+export const joinSession = (code: string, name: string) => {
+  const token = newToken();
+  const { lastInsertRowid } = insertPlayer.run(normalizeCode(code), token, name, Date.now());
+  return { id: Number(lastInsertRowid), token };
+};
+
+export const isPlayer = (code: string, id: number, token: unknown) => {
+  const row = selectPlayerToken.get(id, normalizeCode(code)) as { token: string } | undefined;
+  return !!row && typeof token === 'string' && sameToken(row.token, token);
+};
+
+export const reportProgress = db.transaction((id: number, report: ProgressReport) => {
+  updatePlayer.run({
+    id,
+    level: report.level,
+    levelId: report.levelId,
+    elapsedMs: report.elapsedMs,
+    running: report.running && !report.finished ? 1 : 0,
+    now: Date.now(),
+    finished: report.finished ? 1 : 0,
+    // Recomputed here, like the leaderboard's, rather than trusted from the client
+    score: report.finished ? computeScore(report) : null,
+    wrongAnswers: report.wrongAnswers,
+    stirStrokes: report.stirStrokes,
+  });
+  for (const [levelId, ms] of Object.entries(report.splits)) {
+    upsertSplit.run(id, levelId, ms);
+  }
+});
+
+/** Everyone in the session, with each running clock brought up to `now`. */
+export const listPlayers = (code: string, paused: boolean, now = Date.now()): PlayerStatus[] => {
+  const key = normalizeCode(code);
+  const splits = new Map<number, Record<string, number>>();
+  for (const { playerId, levelId, ms } of selectSplits.all(key) as { playerId: number, levelId: string, ms: number }[]) {
+    splits.set(playerId, { ...splits.get(playerId), [levelId]: ms });
+  }
+  return (selectPlayers.all(key) as PlayerRow[]).map(row => {
+    const counting = row.running === 1 && row.finished === 0 && !paused;
+    const own = splits.get(row.id) ?? {};
+    return {
+      id: row.id,
+      name: row.name,
+      level: row.level,
+      levelId: row.level_id,
+      elapsedMs: row.finished ? totalTime(own) : row.elapsed_ms + (counting ? Math.max(0, now - row.reported_at) : 0),
+      running: counting,
+      finished: row.finished === 1,
+      score: row.score,
+      wrongAnswers: row.wrong_answers,
+      stirStrokes: row.stir_strokes,
+      splits: own,
+      joinedAt: row.joined_at,
+    };
+  });
+};
+
+// --- PUZZLES ---
+// A riddle level played in a session asks for e.g. 'tomato-soup@ABCDE', so the session's answer key applies
+export const SESSION_SEPARATOR = '@';
+
+/** The session's version of a puzzle. Riddles written for other ingredients would mislead, so they go too. */
+export const withSession = (puzzle: Puzzle, code: string): Puzzle | null => {
+  const settings = getSettings(code);
+  if (!settings) return null;
+  const id = `${puzzle.id}${SESSION_SEPARATOR}${settings.code}`;
+  return settings.ingredients ? { ...puzzle, id, ingredients: settings.ingredients, clues: [], hints: [] } : { ...puzzle, id };
+};
+
+// --- EXPORT ---
+// Quotes what CSV needs quoted, and defuses cells a spreadsheet would run as a formula
+const csvCell = (value: string | number | null) => {
+  let text = value === null ? '' : String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const resultsCsv = (code: string, paused: boolean) => {
+  const players = listPlayers(code, paused);
+  const levelIds = [...new Set(players.flatMap(p => Object.keys(p.splits)))].sort();
+  const header = ['name', 'joined_at', 'level', 'finished', 'total_ms', 'score', 'wrong_answers', 'stir_strokes', ...levelIds.map(id => `${id}_ms`)];
+  const rows = players.map(p => [
+    p.name, p.joinedAt, p.level, p.finished ? 'yes' : 'no', p.elapsedMs, p.score, p.wrongAnswers, p.stirStrokes,
+    ...levelIds.map(id => p.splits[id] ?? null),
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
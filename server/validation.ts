@@ -0,0 +1,19 @@
+// Checks shared by the routers that take player input
+
+export const MAX_NAME = 16;
+
+export const isCount = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 0;
+
+// A request body's fields, or none if it isn't a JSON object
+export const fieldsOf = (body: unknown): Record<string, unknown> =>
+  (typeof body === 'object' && body !== null && !Array.isArray(body) ? body as Record<string, unknown> : {});
+
+export const parseSplits = (raw: unknown): Record<string, number> | string => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return 'splits must map level ids to times';
+  const splits: Record<string, number> = {};
+  for (const [levelId, ms] of Object.entries(raw)) {
+    if (!/^[\w-]+$/.test(levelId) || !isCount(ms) || ms === 0) return `invalid split for "${levelId}"`;
+    splits[levelId] = ms;
+  }
+  return splits;
+};
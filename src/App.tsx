@@ -1,439 +1,234 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { motion, AnimatePresence } from 'motion/react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { motion, AnimatePresence, MotionConfig } from 'motion/react';
+import { Volume2, VolumeX } from 'lucide-react';
+import { LevelRunner } from './components/LevelRunner';
+import { LevelEditor } from './components/LevelEditor';
+import { LEVELS, COOP_LEVELS } from './levels/manifest';
+import { useSave, recordLevelReached, recordLevelTime, type SaveData } from './game/save';
+import { formatTime } from './game/time';
+import { computeScore, emptyStats, totalTime, type LevelStats, type RunResult } from './game/score';
+import { submitRun } from './api/leaderboard';
+import { newRunId } from './api/puzzles';
+import { ApiError } from './api/http';
+import { Leaderboard } from './components/Leaderboard';
+import { ReplayViewer } from './components/ReplayViewer';
+import { downloadJson } from './components/download';
+import { SettingsPanel } from './components/SettingsPanel';
+import { installAudioUnlock, setVolumes } from './audio/engine';
+import { playMusic, stopMusic } from './audio/music';
+import { playChord } from './audio/sfx';
+import { createRunRecording, createLevelRecording, type RunRecording, type LevelRecording } from './game/replay';
+import { I18nProvider, useI18n, localizeLevel, translate, type Locale } from './i18n';
+import { LanguagePicker } from './components/LanguagePicker';
+import { JoinEvent } from './components/JoinEvent';
+import { DevConsole } from './components/DevConsole';
+import { reportProgress, playerStreamUrl, sessionPuzzle, type SessionConfig, type SessionSeat } from './api/sessions';
+import type { LevelDefinition } from './levels/schema';
+
+// --- SCREENS ---
+const StartScreen = ({ save, players, event, onChangePlayers, onNewGame, onContinue, onEdit, onShowLeaderboard, onWatchReplay, onShowSettings, onChangeLocale, onJoinEvent, onLeaveEvent }: {
+  save: SaveData,
+  players: number,
+  // Code of the event session joined, if any
+  event: string | null,
+  onChangePlayers: (players: number) => void,
+  onNewGame: () => void,
+  onContinue: () => void,
+  onEdit: () => void,
+  onShowLeaderboard: () => void,
+  onWatchReplay: () => void,
+  onShowSettings: () => void,
+  onChangeLocale: (locale: Locale) => void,
+  onJoinEvent: () => void,
+  onLeaveEvent: () => void,
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const canContinue = save.furthestLevel > 1 && save.furthestLevel <= LEVELS.length;
+  const bestTimes = LEVELS.filter(l => save.bestTimes[l.id] !== undefined);
 
-// --- UTILS & HOOKS ---
-const GAME_WIDTH = 800;
-const GAME_HEIGHT = 400;
-
-type Obstacle = { x: number, y: number, w: number, h: number };
-
-const useMovement = (initialX: number, initialY: number, obstacles: Obstacle[] = []) => {
-  const [pos, setPos] = useState({ x: initialX, y: initialY });
-  const [dir, setDir] = useState(1);
+  return (
+    <div className="flex flex-col items-center justify-center h-full space-y-12 text-center">
+      <motion.div
+        initial={{ scale: 0.5, opacity: 0, y: -50 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        transition={{ type: "spring", bounce: 0.5, duration: 1 }}
+        className="space-y-8 relative z-10"
+      >
+        <h1 className="text-6xl md:text-8xl font-pixel text-red-600 drop-shadow-[8px_8px_0_#000] leading-tight whitespace-pre-line">
+          {t('start.title')}
+        </h1>
+        <p className="text-2xl md:text-4xl font-vt text-orange-400 mt-8 font-bold bg-black/80 inline-block px-8 py-4 border-4 border-red-900 pixel-shadow-sm">
+          {t('start.tagline')}
+        </p>
+      </motion.div>
+      
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: 0.5, duration: 0.5 }}
+        className="mt-16 flex flex-wrap gap-6 justify-center relative z-10"
+      >
+        {canContinue && (
+          <button
+            onClick={onContinue}
+            className="px-12 py-6 bg-red-600 hover:bg-red-500 text-white font-pixel text-3xl border-4 border-black pixel-shadow hover:translate-y-1 hover:shadow-[4px_4px_0_#000] transition-all cursor-pointer animate-pulse"
+          >
+            {t('start.continue')}
+          </button>
+        )}
+        <button
+          onClick={onNewGame}
+          className={`${canContinue ? 'px-8 py-6 text-xl bg-zinc-900 hover:bg-zinc-800' : 'px-12 py-6 text-3xl bg-red-600 hover:bg-red-500 animate-pulse'} text-white font-pixel border-4 border-black pixel-shadow hover:translate-y-1 hover:shadow-[4px_4px_0_#000] transition-all cursor-pointer`}
+        >
+          {canContinue ? t('start.newGame') : t('start.play')}
+        </button>
+      </motion.div>
 
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(e.key)) {
-        e.preventDefault();
-      }
-      const speed = 30;
-      setPos(p => {
-        let nextX = p.x;
-        let nextY = p.y;
-        if (e.key === 'ArrowUp') nextY -= speed;
-        if (e.key === 'ArrowDown') nextY += speed;
-        if (e.key === 'ArrowLeft') { nextX -= speed; setDir(-1); }
-        if (e.key === 'ArrowRight') { nextX += speed; setDir(1); }
-        
-        nextX = Math.max(0, Math.min(nextX, GAME_WIDTH - 64));
-        nextY = Math.max(0, Math.min(nextY, GAME_HEIGHT - 64));
-
-        const checkCol = (cx: number, cy: number) => obstacles.some(obs => 
-          cx < obs.x + obs.w && cx + 64 > obs.x &&
-          cy < obs.y + obs.h && cy + 64 > obs.y
-        );
-
-        let finalX = p.x;
-        let finalY = p.y;
-        if (!checkCol(nextX, p.y)) finalX = nextX;
-        if (!checkCol(finalX, nextY)) finalY = nextY;
-
-        return { x: finalX, y: finalY };
-      });
-    };
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [obstacles]);
-
-  return { pos, dir };
-};
+      <div className="flex gap-2 relative z-10">
+        {[1, 2].map(n => (
+          <button
+            key={n}
+            onClick={() => onChangePlayers(n)}
+            aria-pressed={n === players}
+            className={`px-4 py-2 font-pixel text-xs border-4 border-black pixel-shadow-sm cursor-pointer ${n === players ? 'bg-red-600 text-white' : 'bg-zinc-900 text-orange-300 hover:bg-zinc-800'}`}
+          >
+            {t(n === 1 ? 'start.solo' : 'start.coop')}
+          </button>
+        ))}
+      </div>
 
-// Increased threshold and adjusted center points for easier interaction
-const checkDist = (p1: {x: number, y: number}, p2: {x: number, y: number}, threshold = 150) => {
-  const dx = (p1.x + 32) - (p2.x + 32);
-  const dy = (p1.y + 32) - (p2.y + 32);
-  return Math.sqrt(dx*dx + dy*dy) < threshold;
-};
+      {event && (
+        <div className="flex items-center gap-4 relative z-10 font-pixel text-xs text-yellow-300">
+          {t('start.inEvent', { code: event })}
+          <button onClick={onLeaveEvent} className="px-3 py-2 bg-zinc-900 hover:bg-zinc-800 text-orange-300 border-4 border-black pixel-shadow-sm cursor-pointer">
+            {t('start.leaveEvent')}
+          </button>
+        </div>
+      )}
 
-// --- DECORATIONS & OBSTACLES ---
-const Lava = () => (
-  <div className="absolute bottom-0 left-0 w-full h-16 bg-red-600 border-t-4 border-black flex overflow-hidden z-0">
-    {[...Array(20)].map((_, i) => (
-      <motion.div 
-        key={i}
-        animate={{ y: [0, -10, 0] }} 
-        transition={{ repeat: Infinity, duration: 1 + Math.random(), delay: Math.random() }}
-        className="w-16 h-16 bg-orange-500 rounded-full border-4 border-black -mt-8 -ml-4"
-      />
-    ))}
-  </div>
-);
-
-const DevilDecor = ({ pos, flip }: { pos: {x: number, y: number}, flip?: boolean }) => (
-  <div className="absolute w-12 h-16 z-0 opacity-40 pointer-events-none" style={{ left: pos.x, top: pos.y, transform: flip ? 'scaleX(-1)' : 'none' }}>
-    <div className="w-10 h-10 bg-red-900 border-4 border-black absolute bottom-0 left-1 flex justify-center items-center">
-      <div className="flex gap-1 mb-2">
-        <div className="w-2 h-2 bg-black" />
-        <div className="w-2 h-2 bg-black" />
-      </div>
-    </div>
-    <div className="absolute top-2 left-1 w-2 h-4 bg-black" />
-    <div className="absolute top-2 right-1 w-2 h-4 bg-black" />
-    <div className="absolute -right-4 top-0 w-1 h-16 bg-black">
-      <div className="absolute -top-2 -left-2 w-5 h-4 border-4 border-black border-t-0 rounded-b-full" />
-      <div className="absolute -top-4 left-0 w-1 h-4 bg-black" />
-    </div>
-  </div>
-);
-
-const Rock = ({ obs, key }: { obs: Obstacle, key?: React.Key }) => (
-  <div 
-    className="absolute bg-zinc-800 border-4 border-black pixel-shadow z-10 flex items-center justify-center overflow-hidden" 
-    style={{ left: obs.x, top: obs.y, width: obs.w, height: obs.h }}
-  >
-    <div className="w-full h-full opacity-30" style={{ backgroundImage: 'radial-gradient(#000 2px, transparent 2px)', backgroundSize: '12px 12px' }} />
-  </div>
-);
-
-// --- COMPONENTS ---
-const Player = ({ pos, dir, item }: { pos: {x: number, y: number}, dir: number, item?: string }) => (
-  <div 
-    className="absolute w-16 h-16 z-50 transition-all duration-75 ease-linear"
-    style={{ left: pos.x, top: pos.y, transform: `scaleX(${dir})` }}
-  >
-    {/* Demon Body */}
-    <div className="w-12 h-12 bg-red-600 border-4 border-black pixel-shadow-sm absolute bottom-0 left-2 flex justify-center items-center">
-      <div className="flex gap-2 mb-2">
-        <div className="w-2 h-2 bg-yellow-400 border border-black" />
-        <div className="w-2 h-2 bg-yellow-400 border border-black" />
-      </div>
-      <div className="absolute bottom-2 w-4 h-1 bg-black" />
-    </div>
-    {/* Horns */}
-    <div className="absolute top-0 left-2 w-3 h-4 bg-red-900 border-2 border-black" />
-    <div className="absolute top-0 right-2 w-3 h-4 bg-red-900 border-2 border-black" />
-    
-    {/* Held Item */}
-    {item === 'pot' && (
-      <div className="absolute -top-8 left-0 w-16 h-10 bg-zinc-800 border-4 border-black pixel-shadow-sm z-50 flex flex-col justify-between">
-        <div className="w-full h-2 bg-zinc-900 border-b-4 border-black" />
-      </div>
-    )}
-    {item === 'spoon' && (
-      <div className="absolute -top-10 left-8 w-2 h-16 bg-amber-700 border-2 border-black rotate-45 z-50">
-        <div className="absolute -top-4 -left-2 w-6 h-6 bg-amber-600 border-2 border-black rounded-full" />
-      </div>
-    )}
-  </div>
-);
-
-const Pot = ({ pos }: { pos: {x: number, y: number} }) => (
-  <div className="absolute w-16 h-10 bg-zinc-800 border-4 border-black pixel-shadow-sm z-20" style={{ left: pos.x, top: pos.y }}>
-    <div className="w-full h-2 bg-zinc-900 border-b-4 border-black" />
-    <div className="w-full text-center text-[8px] font-pixel text-zinc-400 mt-1">POT</div>
-  </div>
-);
-
-const Stove = ({ pos, hasPot, isLit }: { pos: {x: number, y: number}, hasPot: boolean, isLit: boolean }) => (
-  <div className="absolute w-32 h-24 bg-zinc-900 border-4 border-black pixel-shadow z-10" style={{ left: pos.x, top: pos.y }}>
-    <div className="w-full h-6 bg-zinc-800 border-b-4 border-black flex justify-around items-center">
-      <div className={`w-16 h-2 border-2 border-black rounded-full ${isLit ? 'bg-red-500 animate-pulse' : 'bg-zinc-700'}`} />
-    </div>
-    <div className="absolute -bottom-8 w-full text-center text-xl font-pixel text-red-500">STOVE</div>
-    {hasPot && <Pot pos={{ x: 8, y: -20 }} />}
-    {isLit && (
-      <div className="absolute -top-12 left-8 flex gap-1">
-        <motion.div animate={{ y: [0, -5, 0] }} transition={{ repeat: Infinity, duration: 0.3 }} className="w-4 h-6 bg-orange-500 border-2 border-black" />
-        <motion.div animate={{ y: [0, -8, 0] }} transition={{ repeat: Infinity, duration: 0.4 }} className="w-6 h-8 bg-yellow-400 border-2 border-black" />
-        <motion.div animate={{ y: [0, -5, 0] }} transition={{ repeat: Infinity, duration: 0.5 }} className="w-4 h-6 bg-red-500 border-2 border-black" />
-      </div>
-    )}
-  </div>
-);
-
-// --- LEVEL OBSTACLES ---
-const lvl1Obstacles: Obstacle[] = [
-  { x: 300, y: 100, w: 64, h: 128 },
-  { x: 500, y: 250, w: 128, h: 64 }
-];
-
-const lvl2Obstacles: Obstacle[] = [
-  { x: 250, y: 0, w: 64, h: 250 },
-  { x: 450, y: 150, w: 64, h: 250 }
-];
-
-const lvl3Obstacles: Obstacle[] = [
-  { x: 150, y: 150, w: 128, h: 64 },
-  { x: 350, y: 250, w: 64, h: 150 },
-  { x: 650, y: 50, w: 64, h: 128 }
-];
-
-// --- LEVELS ---
-const Level1 = ({ onComplete }: { onComplete: () => void }) => {
-  const { pos, dir } = useMovement(100, 200, lvl1Obstacles);
-  const [hasPot, setHasPot] = useState(false);
-  const [potOnStove, setPotOnStove] = useState(false);
-  const [isLit, setIsLit] = useState(false);
-
-  const potPos = { x: 200, y: 200 };
-  const stovePos = { x: 600, y: 150 };
-
-  // Auto-pickup pot when touching
-  useEffect(() => {
-    if (!hasPot && !potOnStove && checkDist(pos, potPos, 80)) {
-      setHasPot(true);
-    }
-  }, [pos, hasPot, potOnStove]);
+      {bestTimes.length > 0 && (
+        <p className="font-vt text-2xl text-orange-300 relative z-10">
+          {t('start.best', { times: bestTimes.map(l => `${localizeLevel(i18n, l).title} ${formatTime(save.bestTimes[l.id])}`).join('  |  ') })}
+        </p>
+      )}
 
-  // Auto-place and light when touching stove
-  useEffect(() => {
-    if (hasPot && checkDist(pos, stovePos, 150)) {
-      setHasPot(false);
-      setPotOnStove(true);
-      setIsLit(true);
-      setTimeout(onComplete, 1500);
-    }
-  }, [pos, hasPot, onComplete]);
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: 0.8, duration: 0.5 }}
+        className="flex gap-4 justify-center relative z-10"
+      >
+        <button
+          onClick={onEdit}
+          className="px-6 py-3 bg-zinc-900 hover:bg-zinc-800 text-orange-300 font-pixel text-sm border-4 border-black pixel-shadow-sm transition-all cursor-pointer"
+        >
+          {t('start.editor')}
+        </button>
+        <button
+          onClick={onShowLeaderboard}
+          className="px-6 py-3 bg-zinc-900 hover:bg-zinc-800 text-orange-300 font-pixel text-sm border-4 border-black pixel-shadow-sm transition-all cursor-pointer"
+        >
+          {t('start.leaderboard')}
+        </button>
+        <button
+          onClick={onWatchReplay}
+          className="px-6 py-3 bg-zinc-900 hover:bg-zinc-800 text-orange-300 font-pixel text-sm border-4 border-black pixel-shadow-sm transition-all cursor-pointer"
+        >
+          {t('start.replay')}
+        </button>
+        <button
+          onClick={onShowSettings}
+          className="px-6 py-3 bg-zinc-900 hover:bg-zinc-800 text-orange-300 font-pixel text-sm border-4 border-black pixel-shadow-sm transition-all cursor-pointer"
+        >
+          {t('start.settings')}
+        </button>
+        {!event && (
+          <button
+            onClick={onJoinEvent}
+            className="px-6 py-3 bg-zinc-900 hover:bg-zinc-800 text-orange-300 font-pixel text-sm border-4 border-black pixel-shadow-sm transition-all cursor-pointer"
+          >
+            {t('start.joinEvent')}
+          </button>
+        )}
+      </motion.div>
 
-  return (
-    <div className="flex flex-col items-center justify-center h-full">
-      <div className="text-center mb-8">
-        <h2 className="text-3xl font-pixel text-red-500 drop-shadow-[4px_4px_0_#000]">LEVEL 1</h2>
-        <p className="text-2xl font-vt text-orange-300 mt-4">Arrows to move.</p>
-        <p className="text-xl font-vt text-white">1. Touch Pot to pick up &rarr; 2. Touch Stove to cook!</p>
-      </div>
-      
-      <div className="relative bg-zinc-950 border-8 border-red-900 pixel-shadow overflow-hidden" style={{ width: GAME_WIDTH, height: GAME_HEIGHT }}>
-        <DevilDecor pos={{ x: 50, y: 50 }} />
-        <DevilDecor pos={{ x: 400, y: 80 }} flip />
-        <DevilDecor pos={{ x: 700, y: 250 }} />
-        <Lava />
-        
-        {lvl1Obstacles.map((obs, i) => <Rock key={i} obs={obs} />)}
-        
-        <Player pos={pos} dir={dir} item={hasPot ? 'pot' : undefined} />
-        {!hasPot && !potOnStove && <Pot pos={potPos} />}
-        <Stove pos={stovePos} hasPot={potOnStove} isLit={isLit} />
+      <div className="relative z-10">
+        <LanguagePicker locale={save.settings.locale} onChange={onChangeLocale} />
       </div>
     </div>
   );
 };
 
-const Level2 = ({ onComplete }: { onComplete: () => void }) => {
-  const { pos, dir } = useMovement(100, 200, lvl2Obstacles);
-  const [showQR, setShowQR] = useState(false);
-  const [input, setInput] = useState("");
-  const [error, setError] = useState("");
-
-  const doorPos = { x: 600, y: 100 };
+const RunTimer = ({ baseMs, since }: { baseMs: number, since: number }) => {
+  const [now, setNow] = useState(Date.now());
 
   useEffect(() => {
-    if (!showQR && checkDist(pos, doorPos, 150)) {
-      setShowQR(true);
-    }
-  }, [pos, showQR]);
-
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    const words = input.trim().split(/\s+/).filter(w => w.length > 0);
-    if (words.length >= 2) {
-      onComplete();
-    } else {
-      setError("YOU NEED AT LEAST 2 WORDS!");
-    }
-  };
+    const id = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(id);
+  }, []);
 
   return (
-    <div className="flex flex-col items-center justify-center h-full">
-      <div className="text-center mb-8">
-        <h2 className="text-3xl font-pixel text-red-500 drop-shadow-[4px_4px_0_#000]">LEVEL 2</h2>
-        <p className="text-2xl font-vt text-orange-300 mt-4">Navigate the maze and touch the DOOR.</p>
-      </div>
-
-      <div className="relative bg-zinc-950 border-8 border-red-900 pixel-shadow overflow-hidden" style={{ width: GAME_WIDTH, height: GAME_HEIGHT }}>
-        <DevilDecor pos={{ x: 150, y: 250 }} flip />
-        <DevilDecor pos={{ x: 500, y: 50 }} />
-        <Lava />
-
-        {lvl2Obstacles.map((obs, i) => <Rock key={i} obs={obs} />)}
-
-        {!showQR && <Player pos={pos} dir={dir} />}
-        
-        {/* Door */}
-        <div className="absolute w-24 h-32 bg-amber-900 border-4 border-black pixel-shadow z-10 flex justify-end items-center pr-2" style={{ left: doorPos.x, top: doorPos.y }}>
-          <div className="w-4 h-4 rounded-full bg-yellow-500 border-2 border-black" />
-          <div className="absolute -top-8 w-full text-center text-xl font-pixel text-red-500">DOOR</div>
-        </div>
-
-        {/* QR Popup */}
-        {showQR && (
-          <div className="absolute inset-0 bg-black/80 z-50 flex flex-col items-center justify-center p-8">
-            <div className="bg-zinc-900 border-4 border-black pixel-shadow p-8 flex flex-col items-center max-w-lg w-full">
-              <img 
-                src="https://api.qrserver.com/v1/create-qr-code/?size=150x150&data=https://hell-s-enigma.vercel.app/" 
-                alt="QR Code"
-                className="w-32 h-32 pixelated border-4 border-white mb-6"
-              />
-              <p className="text-2xl font-vt text-orange-300 mb-4 text-center">Scan to find ingredients. Enter at least 2.</p>
-              <form onSubmit={handleSubmit} className="w-full flex flex-col gap-4">
-                <input
-                  type="text"
-                  value={input}
-                  onChange={(e) => { setInput(e.target.value); setError(""); }}
-                  placeholder="INGREDIENTS..."
-                  className="w-full p-4 bg-black border-4 border-white text-white font-vt text-2xl uppercase focus:border-red-500 outline-none"
-                  autoFocus
-                />
-                {error && <p className="text-red-500 font-pixel text-sm">{error}</p>}
-                <button type="submit" className="bg-red-600 text-white font-pixel p-4 border-4 border-black hover:bg-red-500">
-                  SUBMIT
-                </button>
-              </form>
-            </div>
-          </div>
-        )}
-      </div>
+    <div className="absolute top-4 right-4 z-50 font-pixel text-sm text-orange-300 bg-black/80 border-4 border-red-900 px-3 py-2 pixel-shadow-sm">
+      {formatTime(baseMs + now - since)}
     </div>
   );
 };
 
-const Level3 = ({ onComplete }: { onComplete: () => void }) => {
-  const { pos, dir } = useMovement(100, 200, lvl3Obstacles);
-  const [hasSpoon, setHasSpoon] = useState(false);
-  const [stirProgress, setStirProgress] = useState(0);
-
-  const lastPos = useRef({ x: 0, y: 0 });
-  const isStirring = useRef(false);
+const ScoreEntry = ({ run }: { run: RunState }) => {
+  const { t } = useI18n();
+  const [name, setName] = useState('');
+  const [result, setResult] = useState<{ score: number, rank: number } | null>(null);
+  const [error, setError] = useState('');
+  const [pending, setPending] = useState(false);
 
-  const spoonPos = { x: 200, y: 300 };
-  const potPos = { x: 500, y: 150 };
-
-  // Auto-pickup spoon when touching
-  useEffect(() => {
-    if (!hasSpoon && checkDist(pos, spoonPos, 80)) {
-      setHasSpoon(true);
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || pending) return;
+    setPending(true);
+    try {
+      setResult(await submitRun(name.trim(), run.id, run));
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message.toUpperCase() : t('score.unreachable'));
+    } finally {
+      setPending(false);
     }
-  }, [pos, hasSpoon]);
-
-  const handlePointerDown = (e: React.PointerEvent) => {
-    if (!hasSpoon || !checkDist(pos, potPos, 250)) return;
-    isStirring.current = true;
-    lastPos.current = { x: e.clientX, y: e.clientY };
-    (e.target as HTMLElement).setPointerCapture(e.pointerId);
-  };
-
-  const handlePointerUp = (e: React.PointerEvent) => {
-    isStirring.current = false;
-    (e.target as HTMLElement).releasePointerCapture(e.pointerId);
   };
 
-  const handlePointerMove = (e: React.PointerEvent) => {
-    if (!isStirring.current || !hasSpoon || !checkDist(pos, potPos, 250)) return;
-
-    const dx = e.clientX - lastPos.current.x;
-    const dy = e.clientY - lastPos.current.y;
-    const dist = Math.sqrt(dx * dx + dy * dy);
-
-    if (dist > 0) {
-      setStirProgress((prev) => {
-        const next = prev + (dist / 15);
-        if (next >= 100 && prev < 100) {
-          setTimeout(onComplete, 500);
-        }
-        return next;
-      });
-      lastPos.current = { x: e.clientX, y: e.clientY };
-    }
-  };
+  if (result) {
+    return <p className="font-pixel text-lg text-blue-900">{t('score.rank', { rank: result.rank, count: result.score })}</p>;
+  }
 
   return (
-    <div className="flex flex-col items-center justify-center h-full">
-      <div className="text-center mb-8">
-        <h2 className="text-3xl font-pixel text-red-500 drop-shadow-[4px_4px_0_#000]">LEVEL 3</h2>
-        <p className="text-2xl font-vt text-orange-300 mt-4">1. Touch Spoon to pick up &rarr; 2. Stand by Pot &rarr; 3. Click & Drag to stir!</p>
-      </div>
-
-      <div className="relative bg-zinc-950 border-8 border-red-900 pixel-shadow overflow-hidden" style={{ width: GAME_WIDTH, height: GAME_HEIGHT }}>
-        <DevilDecor pos={{ x: 80, y: 80 }} />
-        <DevilDecor pos={{ x: 350, y: 200 }} flip />
-        <Lava />
-
-        {lvl3Obstacles.map((obs, i) => <Rock key={i} obs={obs} />)}
-
-        <Player pos={pos} dir={dir} item={hasSpoon ? 'spoon' : undefined} />
-        
-        {/* Spoon on ground */}
-        {!hasSpoon && (
-          <div className="absolute w-12 h-4 bg-amber-700 border-2 border-black z-10 flex items-center" style={{ left: spoonPos.x, top: spoonPos.y }}>
-            <div className="w-6 h-6 bg-amber-600 border-2 border-black rounded-full -ml-2" />
-            <div className="absolute -bottom-6 w-full text-center text-sm font-pixel text-amber-500">SPOON</div>
-          </div>
-        )}
-
-        {/* Big Pot */}
-        <div 
-          className={`absolute w-48 h-48 bg-zinc-900 rounded-full border-8 border-black pixel-shadow z-10 flex items-center justify-center overflow-hidden ${hasSpoon ? 'cursor-pointer' : ''}`}
-          style={{ left: potPos.x, top: potPos.y, touchAction: 'none' }}
-          onPointerDown={handlePointerDown}
-          onPointerUp={handlePointerUp}
-          onPointerCancel={handlePointerUp}
-          onPointerMove={handlePointerMove}
-        >
-          <div 
-            className="w-40 h-40 rounded-full bg-red-600 border-4 border-red-800 relative pointer-events-none"
-            style={{ transform: `rotate(${stirProgress * 15}deg)` }}
-          >
-            <div className="w-8 h-8 bg-red-800 border-2 border-black absolute top-4 left-4" />
-            <div className="w-10 h-6 bg-orange-700 border-2 border-black absolute bottom-8 right-8" />
-            <div className="w-6 h-6 bg-green-700 border-2 border-black absolute top-12 right-10" />
-            
-            <div className="w-full h-full rounded-full border-8 border-t-red-400 border-r-transparent border-b-red-800 border-l-transparent absolute" />
-          </div>
-          <div className="absolute -bottom-8 w-full text-center text-xl font-pixel text-red-500">TOMATO SOUP</div>
-        </div>
-
-        {/* Progress Bar */}
-        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 w-96 h-8 bg-black border-4 border-white pixel-shadow z-50">
-          <div className="h-full bg-red-500 transition-all duration-75" style={{ width: `${Math.min(100, stirProgress)}%` }} />
-        </div>
+    <form onSubmit={handleSubmit} className="flex flex-col items-center gap-3">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          maxLength={16}
+          onChange={(e) => { setName(e.target.value); setError(''); }}
+          placeholder={t('score.placeholder')}
+          className="p-3 bg-white border-4 border-blue-900 text-blue-900 font-vt text-2xl uppercase outline-none"
+          autoFocus
+        />
+        <button type="submit" disabled={pending || !name.trim()} className="px-4 bg-blue-900 text-white font-pixel text-sm border-4 border-black disabled:opacity-50 cursor-pointer">
+          {t('score.submit')}
+        </button>
       </div>
-    </div>
+      {error && <p className="font-pixel text-xs text-red-600">{error}</p>}
+    </form>
   );
 };
 
-const StartScreen = ({ onStart }: { onStart: () => void }) => {
-  return (
-    <div className="flex flex-col items-center justify-center h-full space-y-12 text-center">
-      <motion.div
-        initial={{ scale: 0.5, opacity: 0, y: -50 }}
-        animate={{ scale: 1, opacity: 1, y: 0 }}
-        transition={{ type: "spring", bounce: 0.5, duration: 1 }}
-        className="space-y-8 relative z-10"
-      >
-        <h1 className="text-6xl md:text-8xl font-pixel text-red-600 drop-shadow-[8px_8px_0_#000] leading-tight">
-          HELL'S<br/>KITCHEN
-        </h1>
-        <p className="text-2xl md:text-4xl font-vt text-orange-400 mt-8 font-bold bg-black/80 inline-block px-8 py-4 border-4 border-red-900 pixel-shadow-sm">
-          Escape the underworld through cooking!
-        </p>
-      </motion.div>
-      
-      <motion.button 
-        initial={{ opacity: 0 }}
-        animate={{ opacity: 1 }}
-        transition={{ delay: 0.5, duration: 0.5 }}
-        onClick={onStart}
-        className="mt-16 px-12 py-6 bg-red-600 hover:bg-red-500 text-white font-pixel text-3xl border-4 border-black pixel-shadow hover:translate-y-1 hover:shadow-[4px_4px_0_#000] transition-all cursor-pointer relative z-10 animate-pulse"
-      >
-        PLAY
-      </motion.button>
-    </div>
-  );
-};
+const WinScreen = ({ run, onPlayAgain, onShowLeaderboard, onSaveReplay }: { run: RunState | null, onPlayAgain: () => void, onShowLeaderboard: () => void, onSaveReplay?: () => void }) => {
+  const { t } = useI18n();
+
+  useEffect(() => {
+    playChord();
+  }, []);
 
-const WinScreen = () => {
   return (
-    <div className="flex flex-col items-center justify-center h-full space-y-12 text-center">
+    <div className="flex flex-col items-center justify-center h-full space-y-8 text-center">
       <motion.div
         initial={{ scale: 0.5, opacity: 0, y: 50 }}
         animate={{ scale: 1, opacity: 1, y: 0 }}
@@ -445,63 +240,313 @@ const WinScreen = () => {
           transition={{ repeat: Infinity, duration: 3, ease: "easeInOut" }}
           className="w-40 h-16 border-[12px] border-yellow-300 rounded-[100%] mx-auto mb-8 shadow-[0_0_30px_#fde047]"
         />
-        <h1 className="text-6xl md:text-8xl font-pixel text-yellow-300 drop-shadow-[8px_8px_0_#d97706] leading-tight">
-          HAPPY<br/>FTOUR
+        <h1 className="text-6xl md:text-8xl font-pixel text-yellow-300 drop-shadow-[8px_8px_0_#d97706] leading-tight whitespace-pre-line">
+          {t('win.title')}
         </h1>
         <p className="text-3xl md:text-5xl font-vt text-blue-900 mt-8 font-bold bg-white/80 inline-block px-8 py-4 border-4 border-blue-900 pixel-shadow-sm">
-          You have ascended to Heaven!
+          {t('win.subtitle')}
         </p>
       </motion.div>
-      <motion.button 
+
+      {run && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 1, duration: 0.5 }}
+          className="relative z-10 flex flex-col items-center gap-4"
+        >
+          <p className="font-vt text-3xl text-blue-900">
+            {t('win.stats', { time: formatTime(totalTime(run.splits)), score: computeScore(run) })}
+          </p>
+          {run.ranked
+            ? <ScoreEntry run={run} />
+            : <p className="font-vt text-2xl text-blue-900">{t(run.coop ? 'win.coopUnranked' : 'win.unranked')}</p>}
+        </motion.div>
+      )}
+
+      <motion.div
         initial={{ opacity: 0 }}
         animate={{ opacity: 1 }}
         transition={{ delay: 1.5, duration: 0.5 }}
-        onClick={() => window.location.reload()}
-        className="mt-16 px-10 py-5 bg-white hover:bg-yellow-100 text-blue-900 font-pixel text-2xl border-4 border-blue-900 pixel-shadow-sm hover:translate-y-1 hover:shadow-[2px_2px_0_#1e3a8a] transition-all cursor-pointer relative z-10"
+        className="flex flex-wrap gap-4 justify-center relative z-10"
       >
-        PLAY AGAIN
-      </motion.button>
+        <button 
+          onClick={onPlayAgain}
+          className="px-10 py-5 bg-white hover:bg-yellow-100 text-blue-900 font-pixel text-2xl border-4 border-blue-900 pixel-shadow-sm hover:translate-y-1 hover:shadow-[2px_2px_0_#1e3a8a] transition-all cursor-pointer"
+        >
+          {t('win.playAgain')}
+        </button>
+        <button
+          onClick={onShowLeaderboard}
+          className="px-6 py-5 bg-white hover:bg-yellow-100 text-blue-900 font-pixel text-sm border-4 border-blue-900 pixel-shadow-sm hover:translate-y-1 hover:shadow-[2px_2px_0_#1e3a8a] transition-all cursor-pointer"
+        >
+          {t('win.leaderboard')}
+        </button>
+        {onSaveReplay && (
+          <button
+            onClick={onSaveReplay}
+            className="px-6 py-5 bg-white hover:bg-yellow-100 text-blue-900 font-pixel text-sm border-4 border-blue-900 pixel-shadow-sm hover:translate-y-1 hover:shadow-[2px_2px_0_#1e3a8a] transition-all cursor-pointer"
+          >
+            {t('win.saveReplay')}
+          </button>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+// Shown over the game while an event host holds everyone up
+const HostHold = ({ level, paused }: { level: number, paused: boolean }) => {
+  const { t } = useI18n();
+  return (
+    <div className="absolute inset-0 z-40 bg-black/80 flex items-center justify-center">
+      <p className="font-pixel text-2xl text-yellow-300 text-center animate-pulse drop-shadow-[4px_4px_0_#000] px-6">
+        {paused ? t('event.paused') : t('event.locked', { level })}
+      </p>
     </div>
   );
 };
 
+// At an event the riddle takes the session's answer key and sends its QR code where the host chose
+const withEvent = (level: LevelDefinition, event: SessionConfig | null): LevelDefinition => {
+  if (!event || level.win.type !== 'riddle') return level;
+  return { ...level, win: { ...level.win, puzzle: sessionPuzzle(level.win.puzzle, event.code), qrUrl: event.qrUrl ?? level.win.qrUrl } };
+};
+
+type Mode = 'play' | 'editor' | 'leaderboard' | 'replay' | 'settings' | 'join';
+
+// `ranked` runs started from level 1 with NEW GAME, alone; only those may be posted to the leaderboard.
+// `id` is what the server counts the run's riddle answers under.
+type RunState = RunResult & { id: string, ranked: boolean, coop: boolean };
+
+const startRun = (ranked: boolean, coop: boolean): RunState => ({ id: newRunId(), ranked, coop, splits: {}, ...emptyStats() });
+
+const addStats = (run: RunState, stats: LevelStats): RunState => ({
+  ...run,
+  wrongAnswers: run.wrongAnswers + stats.wrongAnswers,
+  stirStrokes: run.stirStrokes + stats.stirStrokes,
+});
+
 export default function App() {
+  // 0 is the start screen, 1..LEVELS.length are playable levels, anything past that is heaven
   const [level, setLevel] = useState(0);
-  const isHeaven = level === 4;
+  const [mode, setMode] = useState<Mode>('play');
+  // Bumped to remount the current level from scratch
+  const [attempt, setAttempt] = useState(0);
+  const [run, setRun] = useState<RunState | null>(null);
+  // The current level's stats so far, which only join the run once it ends; the host sees them live
+  const [levelStats, setLevelStats] = useState(emptyStats);
+  const [save, setSave] = useSave();
+  // Restarts after a failure keep counting towards the level's time
+  const [levelStart, setLevelStart] = useState(Date.now());
+  // Input log of the run so far and the attempt being written to, for SAVE REPLAY
+  const recording = useRef<RunRecording | null>(null);
+  const [attemptLog, setAttemptLog] = useState<LevelRecording | undefined>();
+  // Chosen on the start screen; a run keeps the count it started with
+  const [players, setPlayers] = useState(1);
+  // The event session joined from the start screen, and its config as last pushed by the host
+  const [seat, setSeat] = useState<SessionSeat | null>(null);
+  const [event, setEvent] = useState<SessionConfig | null>(null);
+  // When the host's current hold began; held time doesn't count towards the level
+  const holdStart = useRef<number | null>(null);
+  const playing = mode === 'play';
+  const levels = players > 1 ? COOP_LEVELS : LEVELS;
+  const isHeaven = playing && level > levels.length;
+  const eventCode = event?.code;
+  const eventQr = event?.qrUrl;
+  // Only the fields the level uses, so a pause doesn't hand the runner a new level
+  const current = useMemo(() => levels[level - 1] && withEvent(levels[level - 1], event), [levels, level, eventCode, eventQr]);
+  const locked = !!current && !!event && event.unlocked !== null && level > event.unlocked;
+  const held = playing && !!current && !!event && (event.paused || locked);
+
+  // Every mount of a level gets its own log, appended to the run's recording
+  const logAttempt = (n: number) => {
+    const next = levels[n - 1] && withEvent(levels[n - 1], event);
+    if (!recording.current || !next) {
+      setAttemptLog(undefined);
+      return;
+    }
+    const log = createLevelRecording(next);
+    recording.current.attempts.push(log);
+    setAttemptLog(log);
+  };
 
-  return (
-    <div className={`min-h-screen font-vt overflow-hidden relative selection:bg-black selection:text-white transition-colors duration-1000 flex flex-col items-center justify-center ${isHeaven ? 'bg-sky-300 text-blue-900' : 'bg-[#1a0505] text-white'}`}>
-      {!isHeaven ? (
-        <div className="absolute inset-0 pointer-events-none opacity-20">
-          <div className="w-full h-full" style={{ backgroundImage: 'linear-gradient(#330000 4px, transparent 4px), linear-gradient(90deg, #330000 4px, transparent 4px)', backgroundSize: '64px 64px' }} />
-        </div>
-      ) : (
-        <div className="absolute inset-0 pointer-events-none overflow-hidden">
-          <motion.div animate={{ y: [-5, 5, -5] }} transition={{ repeat: Infinity, duration: 4 }} className="absolute top-20 left-[10%] w-48 h-16 bg-white border-4 border-blue-200 pixel-shadow-sm" />
-          <motion.div animate={{ y: [-5, 5, -5] }} transition={{ repeat: Infinity, duration: 4, delay: 1 }} className="absolute top-40 right-[15%] w-48 h-16 bg-white border-4 border-blue-200 pixel-shadow-sm" />
-        </div>
-      )}
+  const goToLevel = (n: number) => {
+    setLevel(n);
+    setLevelStats(emptyStats());
+    setLevelStart(Date.now());
+    logAttempt(n);
+  };
+
+  const beginRun = (fromLevel: number) => {
+    setRun(startRun(fromLevel === 1 && players === 1, players > 1));
+    recording.current = createRunRecording();
+    goToLevel(fromLevel);
+  };
+
+  const completeLevel = (stats: LevelStats) => {
+    const elapsed = Date.now() - levelStart;
+    setSave(s => recordLevelReached(recordLevelTime(s, current.id, elapsed), level + 1));
+    setRun(r => r && addStats({ ...r, splits: { ...r.splits, [current.id]: elapsed } }, stats));
+    goToLevel(level + 1);
+  };
+
+  const restartLevel = (stats: LevelStats) => {
+    setRun(r => r && addStats(r, stats));
+    setLevelStats(emptyStats());
+    setAttempt(a => a + 1);
+    logAttempt(level);
+  };
+
+  // The dev console's level jump; it spoils the run for the leaderboard
+  const jumpToLevel = (n: number) => {
+    setMode('play');
+    if (n > 0) setRun(r => ({ ...(r ?? startRun(false, players > 1)), ranked: false }));
+    goToLevel(n);
+    setAttempt(a => a + 1);
+  };
+
+  // Back to the title screen with every level's state rebuilt from scratch
+  const resetGame = () => {
+    recording.current = null;
+    goToLevel(0);
+    setRun(null);
+    setAttempt(a => a + 1);
+  };
+
+  const saveReplay = () => {
+    if (!recording.current) return;
+    const stamp = recording.current.recordedAt.replace(/[:.]/g, '-');
+    downloadJson(`hells-kitchen-replay-${stamp}.json`, recording.current);
+  };
+
+  useEffect(() => installAudioUnlock(), []);
+
+  useEffect(() => {
+    if (!seat) return;
+    const source = new EventSource(playerStreamUrl(seat));
+    source.onmessage = (e) => setEvent(JSON.parse(e.data));
+    return () => source.close();
+  }, [seat]);
+
+  // Pushes the level's clock back by however long the host held it, and keeps the host's dashboard current
+  useEffect(() => {
+    let start = levelStart;
+    if (held) {
+      holdStart.current ??= Date.now();
+    } else if (holdStart.current !== null) {
+      start += Math.max(0, Date.now() - Math.max(holdStart.current, levelStart));
+      holdStart.current = null;
+      setLevelStart(start);
+    }
+    if (!seat) return;
+    const splits = run?.splits ?? {};
+    const levelMs = current ? Math.max(0, (holdStart.current ?? Date.now()) - start) : 0;
+    reportProgress(seat, {
+      level,
+      levelId: current?.id ?? null,
+      elapsedMs: totalTime(splits) + levelMs,
+      running: !!current && !held,
+      finished: isHeaven && !!run,
+      splits,
+      wrongAnswers: (run?.wrongAnswers ?? 0) + levelStats.wrongAnswers,
+      stirStrokes: (run?.stirStrokes ?? 0) + levelStats.stirStrokes,
+    }).catch(err => console.warn('Could not report progress to the event host', err));
+  }, [seat, level, held, isHeaven, run, levelStats]);
+
+  useEffect(() => {
+    setVolumes(save.settings.audio);
+  }, [save.settings.audio]);
 
-      <main className="relative z-10 container mx-auto px-6 h-screen flex flex-col items-center justify-center">
-        <div className="w-full max-w-[800px] flex-1 flex flex-col justify-center">
-          <AnimatePresence mode="wait">
-            <motion.div
-              key={level}
-              initial={{ opacity: 0, scale: 0.9 }}
-              animate={{ opacity: 1, scale: 1 }}
-              exit={{ opacity: 0, scale: 1.1 }}
-              transition={{ duration: 0.4 }}
-              className="w-full"
+  // Each level loops its own tune, which its co-op variant shares; menus and heaven are quiet
+  useEffect(() => {
+    if (playing && current) playMusic(LEVELS[level - 1].id);
+    else stopMusic();
+  }, [playing, current, level]);
+
+  const setLocale = (locale: Locale) => setSave(s => ({ ...s, settings: { ...s.settings, locale } }));
+
+  const toggleMute = () => setSave(s => ({ ...s, settings: { ...s.settings, audio: { ...s.settings.audio, muted: !s.settings.audio.muted } } }));
+
+  const { locale } = save.settings;
+
+  return (
+    <I18nProvider locale={locale}>
+      <MotionConfig reducedMotion={save.settings.reducedMotion ? 'always' : 'user'}>
+        <div className={`min-h-screen font-vt overflow-hidden relative selection:bg-black selection:text-white transition-colors duration-1000 flex flex-col items-center justify-center ${isHeaven ? 'bg-sky-300 text-blue-900' : 'bg-[#1a0505] text-white'}`}>
+          {!isHeaven ? (
+            <div className="absolute inset-0 pointer-events-none opacity-20">
+              <div className="w-full h-full" style={{ backgroundImage: 'linear-gradient(#330000 4px, transparent 4px), linear-gradient(90deg, #330000 4px, transparent 4px)', backgroundSize: '64px 64px' }} />
+            </div>
+          ) : (
+            <div className="absolute inset-0 pointer-events-none overflow-hidden">
+              <motion.div animate={{ y: [-5, 5, -5] }} transition={{ repeat: Infinity, duration: 4 }} className="absolute top-20 left-[10%] w-48 h-16 bg-white border-4 border-blue-200 pixel-shadow-sm" />
+              <motion.div animate={{ y: [-5, 5, -5] }} transition={{ repeat: Infinity, duration: 4, delay: 1 }} className="absolute top-40 right-[15%] w-48 h-16 bg-white border-4 border-blue-200 pixel-shadow-sm" />
+            </div>
+          )}
+
+          {playing && current && run && !held && <RunTimer baseMs={totalTime(run.splits)} since={levelStart} />}
+          {held && <HostHold level={level} paused={event!.paused} />}
+          {playing && current && recording.current && (
+            <button
+              onClick={saveReplay}
+              className="absolute top-4 left-4 z-50 font-pixel text-xs text-orange-300 bg-black/80 hover:bg-zinc-900 border-4 border-red-900 px-3 py-2 pixel-shadow-sm cursor-pointer"
             >
-              {level === 0 && <StartScreen onStart={() => setLevel(1)} />}
-              {level === 1 && <Level1 onComplete={() => setLevel(2)} />}
-              {level === 2 && <Level2 onComplete={() => setLevel(3)} />}
-              {level === 3 && <Level3 onComplete={() => setLevel(4)} />}
-              {level === 4 && <WinScreen />}
-            </motion.div>
-          </AnimatePresence>
+              {translate(locale, 'hud.saveReplay')}
+            </button>
+          )}
+
+          <button
+            onClick={toggleMute}
+            aria-label={translate(locale, save.settings.audio.muted ? 'hud.unmute' : 'hud.mute')}
+            className="absolute bottom-4 right-4 z-50 text-orange-300 bg-black/80 hover:bg-zinc-900 border-4 border-red-900 p-2 pixel-shadow-sm cursor-pointer"
+          >
+            {save.settings.audio.muted ? <VolumeX size={20} /> : <Volume2 size={20} />}
+          </button>
+
+          {import.meta.env.DEV && <DevConsole levels={levels.length} onJumpToLevel={jumpToLevel} />}
+
+          <main className={`relative z-10 container mx-auto px-6 flex flex-col items-center justify-center ${mode === 'editor' ? 'min-h-screen py-8' : 'h-screen'}`}>
+            <div className="w-full max-w-[800px] flex-1 flex flex-col justify-center">
+              <AnimatePresence mode="wait">
+                <motion.div
+                  key={playing ? `${level}-${attempt}` : mode}
+                  initial={{ opacity: 0, scale: 0.9 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  exit={{ opacity: 0, scale: 1.1 }}
+                  transition={{ duration: 0.4 }}
+                  className="w-full"
+                >
+                  {mode === 'editor' && <LevelEditor initial={LEVELS[0]} onExit={() => setMode('play')} />}
+                  {mode === 'leaderboard' && <Leaderboard onBack={() => setMode('play')} />}
+                  {mode === 'replay' && <ReplayViewer onExit={() => setMode('play')} />}
+                  {mode === 'join' && <JoinEvent onJoined={(joined, config) => { setSeat(joined); setEvent(config); setMode('play'); }} onBack={() => setMode('play')} />}
+                  {mode === 'settings' && <SettingsPanel settings={save.settings} onChange={settings => setSave(s => ({ ...s, settings }))} onBack={() => setMode('play')} />}
+                  {playing && level === 0 && (
+                    <StartScreen
+                      save={save}
+                      players={players}
+                      event={event?.code ?? null}
+                      onChangePlayers={setPlayers}
+                      onNewGame={() => beginRun(1)}
+                      onContinue={() => beginRun(save.furthestLevel)}
+                      onEdit={() => setMode('editor')}
+                      onShowLeaderboard={() => setMode('leaderboard')}
+                      onWatchReplay={() => setMode('replay')}
+                      onShowSettings={() => setMode('settings')}
+                      onChangeLocale={setLocale}
+                      onJoinEvent={() => setMode('join')}
+                      onLeaveEvent={() => { setSeat(null); setEvent(null); }}
+                    />
+                  )}
+                  {playing && current && !locked && <LevelRunner level={current} runId={run?.id} onComplete={completeLevel} onRestart={restartLevel} onStats={setLevelStats} recording={attemptLog} held={held} />}
+                  {isHeaven && <WinScreen run={run} onPlayAgain={resetGame} onShowLeaderboard={() => setMode('leaderboard')} onSaveReplay={recording.current ? saveReplay : undefined} />}
+                </motion.div>
+              </AnimatePresence>
+            </div>
+          </main>
         </div>
-      </main>
-    </div>
+      </MotionConfig>
+    </I18nProvider>
   );
 }
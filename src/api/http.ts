@@ -0,0 +1,21 @@
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const res = await fetch(url, init);
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new ApiError(res.status, data.error ?? res.statusText);
+  return data as T;
+};
+
+export const getJson = <T>(url: string, headers?: Record<string, string>) => request<T>(url, { headers });
+
+export const postJson = <T>(url: string, body: unknown, headers?: Record<string, string>) => request<T>(url, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', ...headers },
+  body: JSON.stringify(body),
+});
@@ -0,0 +1,26 @@
+// Client for server/leaderboardRoutes.ts
+import { getJson, postJson } from './http';
+import type { RunResult } from '../game/score';
+
+export type RunEntry = {
+  id: number;
+  name: string;
+  score: number;
+  totalMs: number;
+  wrongAnswers: number;
+  stirStrokes: number;
+  createdAt: string;
+};
+
+export type SplitEntry = { name: string, ms: number, createdAt: string };
+
+// Wrong answers aren't sent: the server counts them itself under the run's id
+export const submitRun = (name: string, runId: string, run: RunResult) =>
+  postJson<{ id: number, score: number, rank: number }>('/api/runs', { name, runId, splits: run.splits, stirStrokes: run.stirStrokes });
+
+export const fetchOverall = () => getJson<{ entries: RunEntry[] }>('/api/leaderboard/overall');
+
+export const fetchDaily = (day?: string) =>
+  getJson<{ day: string, entries: RunEntry[] }>(`/api/leaderboard/daily${day ? `?day=${day}` : ''}`);
+
+export const fetchLevelSplits = () => getJson<{ levels: Record<string, SplitEntry[]> }>('/api/leaderboard/levels');
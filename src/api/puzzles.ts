@@ -0,0 +1,49 @@
+// Client for the puzzle endpoints in server/puzzleRoutes.ts
+import { getJson, postJson } from './http';
+
+export type PuzzleInfo = {
+  id: string;
+  title: string;
+  clues: string[];
+  total: number;
+  maxAttempts: number;
+};
+
+// The run's go at a riddle door. `attempt` is the token answers carry, so the server can count them.
+export type AttemptInfo = {
+  attempt: string;
+  attemptsLeft: number;
+  hints: string[];
+};
+
+export type AnswerResponse = {
+  solved: boolean;
+  correct: number;
+  total: number;
+  matched: string[];
+  attemptsLeft: number;
+  hints: string[];
+};
+
+export const fetchPuzzle = (puzzleId: string) =>
+  getJson<PuzzleInfo>(`/api/puzzles/${encodeURIComponent(puzzleId)}`);
+
+// APP_URL is where phones at the venue can reach this server; without it the QR code points at
+// whatever address the game itself was opened on
+const appUrl = () => {
+  const configured = process.env.APP_URL;
+  return configured && configured !== 'MY_APP_URL' ? configured.replace(/\/+$/, '') : window.location.origin;
+};
+
+export const CLUE_PATH = '/clues/';
+
+export const clueUrl = (puzzleId: string) => `${appUrl()}${CLUE_PATH}${encodeURIComponent(puzzleId)}`;
+
+// A run's wrong answers are counted on the server under this id, made up when the run starts
+export const newRunId = () => Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+
+export const startAttempt = (puzzleId: string, run: string) =>
+  postJson<AttemptInfo>(`/api/puzzles/${encodeURIComponent(puzzleId)}/attempts`, { run });
+
+export const submitAnswer = (puzzleId: string, attempt: string, answer: string) =>
+  postJson<AnswerResponse>(`/api/puzzles/${encodeURIComponent(puzzleId)}/answer`, { answer, attempt });
@@ -0,0 +1,78 @@
+// Client for the event session endpoints in server/sessionRoutes.ts
+import { getJson, postJson } from './http';
+import type { RunResult } from '../game/score';
+
+export type SessionConfig = {
+  code: string;
+  paused: boolean;
+  // Highest level number players may start, or null for all of them
+  unlocked: number | null;
+  qrUrl: string | null;
+};
+
+export type SessionIngredient = { name: string, synonyms: string[] };
+
+export type SessionSettings = SessionConfig & { ingredients: SessionIngredient[] | null };
+
+export type SessionPlayer = {
+  id: number;
+  name: string;
+  level: number;
+  levelId: string | null;
+  // As of when the server sent it; it keeps growing from there while `running`
+  elapsedMs: number;
+  running: boolean;
+  finished: boolean;
+  score: number | null;
+  wrongAnswers: number;
+  stirStrokes: number;
+  splits: Record<string, number>;
+  joinedAt: string;
+  connected: boolean;
+};
+
+export type HostView = { settings: SessionSettings, players: SessionPlayer[] };
+
+// A joined player's credentials; the token proves later reports come from them
+export type SessionSeat = { code: string, id: number, token: string };
+
+export type ProgressReport = RunResult & {
+  level: number;
+  levelId: string | null;
+  elapsedMs: number;
+  running: boolean;
+  finished: boolean;
+};
+
+const base = (code: string) => `/api/sessions/${encodeURIComponent(code)}`;
+
+// --- HOST ---
+export const HOST_PATH = '/host';
+
+export const createSession = () => postJson<{ code: string, hostToken: string }>('/api/sessions', {});
+
+export const updateSession = (code: string, hostToken: string, patch: Partial<Omit<SessionSettings, 'code'>>) =>
+  postJson<SessionSettings>(`${base(code)}/settings`, patch, { 'X-Host-Token': hostToken });
+
+export const fetchHostView = (code: string, hostToken: string) =>
+  getJson<HostView>(`${base(code)}/host`, { 'X-Host-Token': hostToken });
+
+// EventSource and download links can't set headers, so these carry the token in the query
+export const hostStreamUrl = (code: string, hostToken: string) => `${base(code)}/host/stream?token=${encodeURIComponent(hostToken)}`;
+
+export const resultsCsvUrl = (code: string, hostToken: string) => `${base(code)}/results.csv?token=${encodeURIComponent(hostToken)}`;
+
+// --- PLAYERS ---
+export const joinSession = async (code: string, name: string) => {
+  const { id, token, config } = await postJson<{ id: number, token: string, config: SessionConfig }>(`${base(code.trim().toUpperCase())}/players`, { name });
+  return { seat: { code: config.code, id, token }, config };
+};
+
+export const reportProgress = (seat: SessionSeat, report: ProgressReport) =>
+  postJson<void>(`${base(seat.code)}/players/${seat.id}/progress`, { token: seat.token, ...report });
+
+export const playerStreamUrl = (seat: SessionSeat) =>
+  `${base(seat.code)}/stream?player=${seat.id}&token=${encodeURIComponent(seat.token)}`;
+
+// A riddle level played in a session asks for its puzzle with the session's answer key (server/sessions.ts)
+export const sessionPuzzle = (puzzle: string, code: string) => `${puzzle}@${code}`;
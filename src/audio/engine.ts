@@ -0,0 +1,67 @@
+import { DEFAULT_AUDIO, type AudioSettings } from '../game/save';
+
+// --- CONTEXT ---
+// Browsers only allow audio after a user gesture, so the context is created on the first key or tap.
+// Until then every sound is silently dropped.
+export type AudioBus = { ctx: AudioContext, music: GainNode, sfx: GainNode };
+
+let bus: AudioBus | null = null;
+let master: GainNode | null = null;
+let volumes: AudioSettings = DEFAULT_AUDIO;
+const unlockListeners: ((bus: AudioBus) => void)[] = [];
+
+// Short ramp so volume changes don't click
+const RAMP = 0.02;
+
+const applyGains = () => {
+  if (!bus || !master) return;
+  const now = bus.ctx.currentTime;
+  master.gain.setTargetAtTime(volumes.muted ? 0 : volumes.master, now, RAMP);
+  bus.music.gain.setTargetAtTime(volumes.music, now, RAMP);
+  bus.sfx.gain.setTargetAtTime(volumes.sfx, now, RAMP);
+};
+
+const createBus = (): AudioBus | null => {
+  const Ctx = window.AudioContext ?? window.webkitAudioContext;
+  if (!Ctx) return null;
+  const ctx: AudioContext = new Ctx();
+  master = ctx.createGain();
+  master.connect(ctx.destination);
+  const music = ctx.createGain();
+  const sfx = ctx.createGain();
+  music.connect(master);
+  sfx.connect(master);
+  return { ctx, music, sfx };
+};
+
+export const unlockAudio = () => {
+  if (!bus) {
+    bus = createBus();
+    if (!bus) return;
+    applyGains();
+    unlockListeners.splice(0).forEach(fn => fn(bus!));
+  }
+  if (bus.ctx.state === 'suspended') void bus.ctx.resume();
+};
+
+// The context and buses, or null while audio is still locked
+export const getAudio = () => bus;
+
+// Runs `fn` once audio is available: right away if it already is
+export const whenAudioReady = (fn: (bus: AudioBus) => void) => {
+  if (bus) fn(bus);
+  else unlockListeners.push(fn);
+};
+
+export const setVolumes = (next: AudioSettings) => {
+  volumes = next;
+  applyGains();
+};
+
+/** Unlocks audio on the first gesture. Returns a cleanup for the listeners. */
+export const installAudioUnlock = () => {
+  const events = ['pointerdown', 'keydown', 'touchstart'];
+  const handle = () => unlockAudio();
+  events.forEach(e => window.addEventListener(e, handle));
+  return () => events.forEach(e => window.removeEventListener(e, handle));
+};
@@ -0,0 +1,98 @@
+import { whenAudioReady, type AudioBus } from './engine';
+
+// --- TRACKS ---
+// Loops of eighth notes as MIDI note numbers; null is a rest. Bass and lead may differ in length.
+type Track = {
+  bpm: number;
+  bass: (number | null)[];
+  lead: (number | null)[];
+  leadWave: OscillatorType;
+};
+
+const TRACKS: Record<string, Track> = {
+  // Level 1: a plodding A minor march through the kitchen
+  level1: {
+    bpm: 112,
+    bass: [45, null, 45, null, 48, null, 45, null, 43, null, 43, null, 40, null, 44, null],
+    lead: [69, null, 72, 71, 69, null, 64, null, 65, 64, 62, null, 64, null, null, null,
+      69, null, 72, 74, 76, null, 74, 72, 71, null, 68, null, 69, null, null, null],
+    leadWave: 'square',
+  },
+  // Level 2: slow and secretive in D minor while the door asks its riddle
+  level2: {
+    bpm: 92,
+    bass: [38, null, null, 38, 41, null, null, 41, 36, null, null, 36, 37, null, null, null],
+    lead: [62, null, 65, null, 69, null, 68, null, 65, null, 64, null, 62, null, null, null,
+      74, null, 73, null, 70, null, 69, null, 65, null, 67, 65, 64, null, null, null],
+    leadWave: 'triangle',
+  },
+  // Level 3: frantic Phrygian stirring
+  level3: {
+    bpm: 144,
+    bass: [40, 40, 52, 40, 41, 41, 53, 41, 40, 40, 52, 40, 43, 41, 40, 38],
+    lead: [64, 65, 64, null, 67, 65, 64, null, 71, 72, 71, 67, 65, 64, 65, null],
+    leadWave: 'square',
+  },
+};
+
+// Custom levels from the editor borrow the first level's tune
+const DEFAULT_TRACK = TRACKS.level1;
+
+// --- SEQUENCER ---
+// Notes are scheduled slightly ahead on the audio clock; the timer only has to wake up often enough
+const LOOKAHEAD = 0.12;
+const TICK_MS = 25;
+
+const midiToHz = (n: number) => 440 * 2 ** ((n - 69) / 12);
+
+const note = ({ ctx, music }: AudioBus, n: number, time: number, duration: number, type: OscillatorType, volume: number) => {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.type = type;
+  osc.frequency.value = midiToHz(n);
+  gain.gain.setValueAtTime(volume, time);
+  gain.gain.exponentialRampToValueAtTime(0.001, time + duration);
+  osc.connect(gain).connect(music);
+  osc.start(time);
+  osc.stop(time + duration + 0.02);
+};
+
+let wanted: string | null = null;
+let playing: { timer: number, step: number, nextTime: number } | null = null;
+
+const start = (bus: AudioBus, track: Track) => {
+  const stepLen = 60 / track.bpm / 2;
+  const state = { timer: 0, step: 0, nextTime: bus.ctx.currentTime + 0.05 };
+  const schedule = () => {
+    // After the tab was in the background, pick up from now instead of firing every missed note
+    if (state.nextTime < bus.ctx.currentTime - 0.5) state.nextTime = bus.ctx.currentTime;
+    while (state.nextTime < bus.ctx.currentTime + LOOKAHEAD) {
+      const bass = track.bass[state.step % track.bass.length];
+      const lead = track.lead[state.step % track.lead.length];
+      if (bass !== null) note(bus, bass, state.nextTime, stepLen * 1.8, 'triangle', 0.35);
+      if (lead !== null) note(bus, lead, state.nextTime, stepLen * 0.9, track.leadWave, 0.12);
+      state.nextTime += stepLen;
+      state.step++;
+    }
+  };
+  schedule();
+  state.timer = window.setInterval(schedule, TICK_MS);
+  playing = state;
+};
+
+export const stopMusic = () => {
+  wanted = null;
+  if (playing) window.clearInterval(playing.timer);
+  playing = null;
+};
+
+/** Loops the tune for `id` (a level id), replacing whatever was playing. Waits for audio to unlock. */
+export const playMusic = (id: string) => {
+  if (wanted === id) return;
+  stopMusic();
+  wanted = id;
+  const track = TRACKS[id] ?? DEFAULT_TRACK;
+  whenAudioReady(bus => {
+    if (wanted === id && !playing) start(bus, track);
+  });
+};
@@ -0,0 +1,118 @@
+import { getAudio, type AudioBus } from './engine';
+
+// --- SYNTH HELPERS ---
+type Tone = {
+  type: OscillatorType;
+  // Hz at the start and end of the sound; equal for a steady pitch
+  from: number;
+  to?: number;
+  duration: number;
+  volume?: number;
+  delay?: number;
+  // Seconds to fade in, for soft pads
+  attack?: number;
+};
+
+const tone = ({ ctx, sfx }: AudioBus, { type, from, to = from, duration, volume = 0.3, delay = 0, attack = 0.005 }: Tone) => {
+  const start = ctx.currentTime + delay;
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.type = type;
+  osc.frequency.setValueAtTime(from, start);
+  if (to !== from) osc.frequency.exponentialRampToValueAtTime(to, start + duration);
+  gain.gain.setValueAtTime(0, start);
+  gain.gain.linearRampToValueAtTime(volume, start + attack);
+  gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+  osc.connect(gain).connect(sfx);
+  osc.start(start);
+  osc.stop(start + duration + 0.05);
+};
+
+let noiseBuffer: AudioBuffer | null = null;
+
+const noise = ({ ctx, sfx }: AudioBus, { duration, from, to, volume = 0.4 }: { duration: number, from: number, to: number, volume?: number }) => {
+  if (!noiseBuffer || noiseBuffer.sampleRate !== ctx.sampleRate) {
+    noiseBuffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const data = noiseBuffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  }
+  const start = ctx.currentTime;
+  const src = ctx.createBufferSource();
+  src.buffer = noiseBuffer;
+  // A sweeping band-pass turns white noise into a rush of flame
+  const filter = ctx.createBiquadFilter();
+  filter.type = 'bandpass';
+  filter.Q.value = 1.5;
+  filter.frequency.setValueAtTime(from, start);
+  filter.frequency.exponentialRampToValueAtTime(to, start + duration);
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0, start);
+  gain.gain.linearRampToValueAtTime(volume, start + duration * 0.2);
+  gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+  src.connect(filter).connect(gain).connect(sfx);
+  src.start(start);
+  src.stop(start + duration + 0.05);
+};
+
+// Every effect is a no-op until the player has interacted with the page
+const withAudio = <A extends unknown[]>(play: (bus: AudioBus, ...args: A) => void) => (...args: A) => {
+  const bus = getAudio();
+  if (bus) play(bus, ...args);
+};
+
+// --- EFFECTS ---
+export const playPickup = withAudio(bus => {
+  tone(bus, { type: 'square', from: 440, to: 880, duration: 0.08, volume: 0.2 });
+  tone(bus, { type: 'square', from: 880, to: 1320, duration: 0.1, volume: 0.2, delay: 0.07 });
+});
+
+export const playWhoosh = withAudio(bus => {
+  noise(bus, { duration: 0.6, from: 300, to: 2400 });
+  tone(bus, { type: 'sine', from: 80, to: 160, duration: 0.5, volume: 0.2 });
+});
+
+export const playDoor = withAudio(bus => {
+  tone(bus, { type: 'sawtooth', from: 90, to: 60, duration: 0.7, volume: 0.15 });
+  tone(bus, { type: 'triangle', from: 220, to: 140, duration: 0.5, volume: 0.2, delay: 0.1 });
+});
+
+export const playBuzz = withAudio(bus => {
+  tone(bus, { type: 'sawtooth', from: 110, duration: 0.15, volume: 0.25 });
+  tone(bus, { type: 'sawtooth', from: 104, duration: 0.3, volume: 0.25, delay: 0.17 });
+});
+
+export const playDrop = withAudio(bus => {
+  tone(bus, { type: 'triangle', from: 160, to: 60, duration: 0.12, volume: 0.3 });
+});
+
+export const playHurt = withAudio(bus => {
+  tone(bus, { type: 'square', from: 300, to: 70, duration: 0.25, volume: 0.25 });
+});
+
+export const playSplash = withAudio(bus => {
+  noise(bus, { duration: 0.3, from: 2400, to: 400, volume: 0.3 });
+  tone(bus, { type: 'sine', from: 500, to: 120, duration: 0.2, volume: 0.15 });
+});
+
+// Bubbles come at most this often however fast the stirring
+const BUBBLE_GAP = 0.07;
+let lastBubble = 0;
+
+/** One bubble from the pot; `progress` (0..1) raises the pitch as the soup comes together. */
+export const playBubble = withAudio((bus, progress: number) => {
+  if (bus.ctx.currentTime - lastBubble < BUBBLE_GAP) return;
+  lastBubble = bus.ctx.currentTime;
+  const base = 180 + Math.min(1, Math.max(0, progress)) * 420;
+  const pitch = base * (0.9 + Math.random() * 0.2);
+  tone(bus, { type: 'sine', from: pitch, to: pitch * 1.8, duration: 0.09, volume: 0.25 });
+});
+
+// C major with an added ninth, spread over two octaves and swelled in slowly
+const CHORD = [261.63, 329.63, 392.0, 523.25, 587.33, 783.99];
+
+export const playChord = withAudio(bus => {
+  CHORD.forEach((freq, i) => {
+    tone(bus, { type: 'sine', from: freq, duration: 3.5, volume: 0.12, attack: 0.6, delay: i * 0.12 });
+    tone(bus, { type: 'triangle', from: freq * 2, duration: 2.5, volume: 0.03, attack: 0.8, delay: i * 0.12 });
+  });
+});
@@ -0,0 +1,51 @@
+import React, { useState, useEffect } from 'react';
+import { fetchPuzzle, type PuzzleInfo } from '../api/puzzles';
+import { ApiError } from '../api/http';
+import { useI18n } from '../i18n';
+
+/**
+ * The page the riddle door's QR code opens on a phone. It is served by the game's own server, so the
+ * whole enigma works at a venue without internet.
+ */
+export const CluePage = ({ puzzleId }: { puzzleId: string }) => {
+  const [puzzle, setPuzzle] = useState<PuzzleInfo | null>(null);
+  const [error, setError] = useState('');
+  const { t } = useI18n();
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPuzzle(puzzleId)
+      .then(p => { if (!cancelled) setPuzzle(p); })
+      .catch(err => { if (!cancelled) setError(err instanceof ApiError && err.status === 404 ? t('clue.unknown') : t('clue.unreachable')); });
+    return () => { cancelled = true; };
+  }, [puzzleId]);
+
+  return (
+    <div className="min-h-screen bg-[#1a0505] text-white font-vt flex flex-col items-center p-6 gap-6">
+      <h1 className="text-2xl font-pixel text-red-500 drop-shadow-[4px_4px_0_#000] text-center mt-4">{t('start.title').replace('\n', ' ')}</h1>
+      {error && <p className="font-pixel text-sm text-red-500 text-center">{error}</p>}
+      {!error && !puzzle && <p className="text-2xl text-zinc-400">{t('clue.loading')}</p>}
+      {puzzle && (
+        <div className="w-full max-w-lg bg-black/80 border-4 border-red-900 pixel-shadow p-6 flex flex-col gap-4">
+          <h2 className="font-pixel text-sm text-yellow-300">{puzzle.title}</h2>
+          {puzzle.clues.length > 0 ? (
+            <>
+              <p className="text-2xl text-orange-300">{t('clue.intro', { count: puzzle.total })}</p>
+              <ol className="flex flex-col gap-3">
+                {puzzle.clues.map((clue, i) => (
+                  <li key={i} className="text-2xl">
+                    <span className="font-pixel text-xs text-red-500 me-2">{i + 1}.</span>{clue}
+                  </li>
+                ))}
+              </ol>
+            </>
+          ) : (
+            // An event host swapped the ingredients; their clues are wherever they sent the QR code
+            <p className="text-2xl text-orange-300">{t('clue.hidden', { count: puzzle.total })}</p>
+          )}
+          <p className="text-xl text-zinc-400">{t('clue.tries', { count: puzzle.maxAttempts })}</p>
+        </div>
+      )}
+    </div>
+  );
+};
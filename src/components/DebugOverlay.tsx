@@ -0,0 +1,76 @@
+import React, { useState, useEffect } from 'react';
+import { PLAYER_SIZE } from '../game/constants';
+import type { PlayerView } from '../game/movement';
+import { ENEMY_SIZE, HIT_INSET } from '../game/hazards';
+import { TAKEN } from '../game/interactions';
+import { interactionRadius } from '../levels/schema';
+import type { GameState } from '../game/engine';
+
+// checkDist measures between the top-left corners shifted by 32, so a radius is drawn around that point
+const REACH_OFFSET = 32;
+
+const useFps = () => {
+  const [fps, setFps] = useState(0);
+
+  useEffect(() => {
+    let frame = 0;
+    let frames = 0;
+    let since = performance.now();
+    const tick = (now: number) => {
+      frames++;
+      if (now - since >= 1000) {
+        setFps(Math.round(frames * 1000 / (now - since)));
+        frames = 0;
+        since = now;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  return fps;
+};
+
+const Box = ({ x, y, w, h, className, label }: { x: number, y: number, w: number, h: number, className: string, label?: string, key?: React.Key }) => (
+  <div className={`absolute border-2 ${className}`} style={{ left: x, top: y, width: w, height: h }}>
+    {label && <span className="absolute -top-4 left-0 font-vt text-sm leading-none whitespace-nowrap">{label}</span>}
+  </div>
+);
+
+/** Dev builds only: draws what the rules see over the board, to tune obstacle boxes and interaction radii. */
+export const DebugOverlay = ({ game, players }: { game: GameState, players: PlayerView[] }) => {
+  const fps = useFps();
+  const { level, things, hazards, stir } = game;
+
+  return (
+    <div className="absolute inset-0 z-[60] pointer-events-none">
+      {level.obstacles.map((obs, i) => <Box key={`obs-${i}`} {...obs} className="border-cyan-400 text-cyan-400" label={`${obs.x},${obs.y} ${obs.w}x${obs.h}`} />)}
+      {things.entities.filter(e => e.state !== TAKEN).map(e => {
+        const r = interactionRadius(e);
+        return (
+          <div
+            key={e.id}
+            className="absolute rounded-full border-2 border-dashed border-yellow-300 text-yellow-300"
+            style={{ left: e.x + REACH_OFFSET - r, top: e.y + REACH_OFFSET - r, width: r * 2, height: r * 2 }}
+          >
+            <span className="absolute top-1/2 left-1/2 -translate-x-1/2 font-vt text-sm whitespace-nowrap">{e.id} r={r} [{e.state}]</span>
+          </div>
+        );
+      })}
+      {hazards.enemies.map((en, i) => (
+        <Box key={`enemy-${i}`} x={en.pos.x + HIT_INSET} y={en.pos.y + HIT_INSET} w={ENEMY_SIZE.w - HIT_INSET * 2} h={ENEMY_SIZE.h - HIT_INSET * 2} className="border-red-500" />
+      ))}
+      {players.map(({ pos }, i) => <Box key={`player-${i}`} x={pos.x} y={pos.y} w={PLAYER_SIZE} h={PLAYER_SIZE} className="border-green-400 text-green-400" />)}
+
+      <div className="absolute bottom-2 left-2 bg-black/80 border-2 border-green-400 p-2 font-vt text-lg leading-tight text-green-400">
+        <p>{fps} FPS · STEP {game.step}</p>
+        {game.bodies.map((b, i) => (
+          <p key={i}>P{i + 1} {Math.round(b.pos.x)},{Math.round(b.pos.y)} [{things.inventories[i].join(', ')}]</p>
+        ))}
+        {level.win.type === 'stir' && <p>STIR {stir.progress.toFixed(1)} / {level.win.target}</p>}
+        {game.noclip && <p className="text-yellow-300">NOCLIP</p>}
+      </div>
+    </div>
+  );
+};
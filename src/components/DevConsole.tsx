@@ -0,0 +1,79 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { devTools, parseCommand, DEV_HELP } from '../game/devtools';
+
+// Lines of output kept on screen
+const MAX_LINES = 12;
+
+const toggleOverlay = () => {
+  devTools.overlay = !devTools.overlay;
+  return `overlay ${devTools.overlay ? 'on' : 'off'}`;
+};
+
+/**
+ * Dev builds only: ` opens a command line over the game, F3 toggles the debug overlay. Cheats are queued
+ * for the level being played; jumping levels is up to the app.
+ */
+export const DevConsole = ({ levels, onJumpToLevel }: { levels: number, onJumpToLevel: (level: number) => void }) => {
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState('');
+  const [lines, setLines] = useState<string[]>(['type help for commands']);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const print = (...more: string[]) => setLines(l => [...l, ...more].slice(-MAX_LINES));
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Backquote') {
+        e.preventDefault();
+        setOpen(o => !o);
+      } else if (e.code === 'F3') {
+        e.preventDefault();
+        print(toggleOverlay());
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (open) inputRef.current?.focus();
+  }, [open]);
+
+  const run = (line: string) => {
+    const command = parseCommand(line);
+    if (typeof command === 'string') return print(`> ${line}`, command);
+    switch (command.type) {
+      case 'help':
+        return print(`> ${line}`, ...DEV_HELP);
+      case 'overlay':
+        return print(`> ${line}`, toggleOverlay());
+      case 'level':
+        // Past the last level is heaven
+        if (command.level > levels + 1) return print(`> ${line}`, `there are only ${levels} levels`);
+        onJumpToLevel(command.level);
+        return print(`> ${line}`, `jumped to level ${command.level}`);
+      default:
+        devTools.cheats.push(command);
+        return print(`> ${line}`, 'ok, applied on the next step of a running level');
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim()) return;
+    run(input);
+    setInput('');
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed top-0 inset-x-0 z-[100] bg-black/90 border-b-4 border-green-700 font-vt text-xl text-green-400 p-3" dir="ltr">
+      {lines.map((line, i) => <p key={i} className="whitespace-pre leading-tight">{line}</p>)}
+      <form onSubmit={handleSubmit} className="flex gap-2 mt-2">
+        <span>&gt;</span>
+        <input ref={inputRef} value={input} onChange={(e) => setInput(e.target.value)} className="flex-1 bg-transparent outline-none text-white" spellCheck={false} />
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import { createSession, fetchHostView, updateSession, hostStreamUrl, resultsCsvUrl, type HostView, type SessionIngredient, type SessionSettings } from '../api/sessions';
+import { ApiError } from '../api/http';
+import { formatTime } from '../game/time';
+import { LEVELS, COOP_LEVELS } from '../levels/manifest';
+
+// The session this browser hosts survives a reload of the dashboard
+const HOST_KEY = 'hells-kitchen-host';
+
+type HostSeat = { code: string, hostToken: string };
+
+const loadSeat = (): HostSeat | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(HOST_KEY) ?? 'null');
+    return typeof stored?.code === 'string' && typeof stored?.hostToken === 'string' ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+// One ingredient per line, the name first then anything else that counts: "tomato, tomate, pomodoro"
+const parseIngredientLines = (text: string): SessionIngredient[] =>
+  text.split('\n')
+    .map(line => line.split(',').map(w => w.trim()).filter(Boolean))
+    .filter(words => words.length > 0)
+    .map(([name, ...synonyms]) => ({ name, synonyms }));
+
+const formatIngredientLines = (ingredients: SessionIngredient[] | null) =>
+  (ingredients ?? []).map(it => [it.name, ...it.synonyms.filter(s => s !== it.name)].join(', ')).join('\n');
+
+const levelTitle = (id: string | null) => [...LEVELS, ...COOP_LEVELS].find(l => l.id === id)?.title ?? '-';
+
+const riddleLevel = LEVELS.findIndex(l => l.win.type === 'riddle') + 1;
+
+const fieldClass = 'w-full p-2 bg-black border-4 border-white text-white font-vt text-xl focus:border-red-500 outline-none';
+const buttonClass = 'px-3 py-2 bg-red-600 hover:bg-red-500 text-white font-pixel text-xs border-4 border-black pixel-shadow-sm cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed';
+
+const Controls = ({ seat, settings, onError }: { seat: HostSeat, settings: SessionSettings, onError: (message: string) => void, key?: React.Key }) => {
+  const [qrUrl, setQrUrl] = useState(settings.qrUrl ?? '');
+  const [ingredients, setIngredients] = useState(() => formatIngredientLines(settings.ingredients));
+
+  const change = (patch: Parameters<typeof updateSession>[2]) =>
+    updateSession(seat.code, seat.hostToken, patch).catch(err => onError(err instanceof ApiError ? err.message.toUpperCase() : 'SERVER UNREACHABLE'));
+
+  return (
+    <div className="w-full grid grid-cols-2 gap-4 font-vt text-xl">
+      <div className="flex items-end gap-2">
+        <button onClick={() => change({ paused: !settings.paused })} className={buttonClass}>
+          {settings.paused ? 'RESUME ALL' : 'PAUSE ALL'}
+        </button>
+        {settings.paused && <span className="font-pixel text-xs text-yellow-300 animate-pulse">PAUSED</span>}
+      </div>
+      <label className="flex flex-col gap-1">PLAYERS MAY START
+        <select className={fieldClass} value={settings.unlocked ?? ''} onChange={(e) => change({ unlocked: e.target.value ? Number(e.target.value) : null })}>
+          <option value="">EVERY LEVEL</option>
+          {LEVELS.map((l, i) => <option key={l.id} value={i + 1}>UP TO LEVEL {i + 1}: {l.title}</option>)}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 col-span-2">QR CODE TARGET
+        <div className="flex gap-2">
+          <input className={fieldClass} value={qrUrl} placeholder="THE LEVEL'S OWN CLUE PAGE" onChange={(e) => setQrUrl(e.target.value)} />
+          <button onClick={() => change({ qrUrl: qrUrl.trim() || null })} className={buttonClass}>SAVE</button>
+        </div>
+      </label>
+      <label className="flex flex-col gap-1 col-span-2">LEVEL {riddleLevel} ACCEPTED INGREDIENTS (ONE PER LINE: NAME, OTHER WORDS THAT COUNT)
+        <textarea className={fieldClass} rows={4} value={ingredients} placeholder="THE PUZZLE'S OWN ANSWER KEY" onChange={(e) => setIngredients(e.target.value)} />
+      </label>
+      <div className="col-span-2 flex flex-wrap gap-2 items-center">
+        <button onClick={() => change({ ingredients: parseIngredientLines(ingredients) })} disabled={parseIngredientLines(ingredients).length === 0} className={buttonClass}>SAVE INGREDIENTS</button>
+        <button onClick={() => { setIngredients(''); change({ ingredients: null }); }} disabled={!settings.ingredients} className={buttonClass}>USE PUZZLE'S OWN</button>
+        {settings.ingredients && <span className="text-zinc-400">The clue page hides its riddles while custom ingredients are set.</span>}
+      </div>
+    </div>
+  );
+};
+
+const PlayerTable = ({ view, receivedAt }: { view: HostView, receivedAt: number }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(id);
+  }, []);
+
+  if (view.players.length === 0) return <p className="font-vt text-2xl text-zinc-500">NOBODY HAS JOINED YET</p>;
+
+  return (
+    <table className="w-full font-vt text-2xl">
+      <thead>
+        <tr className="text-orange-300 text-start">
+          <th className="w-8" /><th>NAME</th><th>LEVEL</th><th className="text-end">TIME</th><th className="text-end">WRONG</th><th className="text-end">SCORE</th>
+        </tr>
+      </thead>
+      <tbody>
+        {view.players.map(p => (
+          <tr key={p.id} className={p.finished ? 'text-yellow-300' : 'text-white'}>
+            <td><span title={p.connected ? 'CONNECTED' : 'DISCONNECTED'} className={`inline-block w-3 h-3 ${p.connected ? 'bg-green-500' : 'bg-zinc-600'}`} /></td>
+            <td>{p.name}</td>
+            <td>{p.finished ? 'DONE' : p.level > 0 ? `${p.level}. ${levelTitle(p.levelId)}` : 'TITLE SCREEN'}</td>
+            <td className="text-end">{formatTime(p.elapsedMs + (p.running ? now - receivedAt : 0))}</td>
+            <td className="text-end">{p.wrongAnswers}</td>
+            <td className="text-end">{p.score ?? '-'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+/**
+ * The host's page at events: opens a session that players join with its code, follows every player live
+ * and steers what they can play.
+ */
+export const HostDashboard = () => {
+  const [seat, setSeat] = useState<HostSeat | null>(loadSeat);
+  const [view, setView] = useState<HostView | null>(null);
+  const [receivedAt, setReceivedAt] = useState(0);
+  const [error, setError] = useState('');
+  const [pending, setPending] = useState(false);
+
+  useEffect(() => {
+    if (!seat) return;
+    let cancelled = false;
+    let source: EventSource | null = null;
+    // A plain request first, since a refused EventSource doesn't say why
+    fetchHostView(seat.code, seat.hostToken)
+      .then(() => {
+        if (cancelled) return;
+        source = new EventSource(hostStreamUrl(seat.code, seat.hostToken));
+        source.onmessage = (e) => {
+          setView(JSON.parse(e.data));
+          setReceivedAt(Date.now());
+          setError('');
+        };
+        source.onerror = () => setError('CONNECTION LOST, RETRYING...');
+      })
+      .catch(err => {
+        if (cancelled) return;
+        if (err instanceof ApiError && (err.status === 403 || err.status === 404)) {
+          localStorage.removeItem(HOST_KEY);
+          setSeat(null);
+        } else {
+          setError('SERVER UNREACHABLE');
+        }
+      });
+    return () => {
+      cancelled = true;
+      source?.close();
+    };
+  }, [seat]);
+
+  const startSession = async () => {
+    setPending(true);
+    try {
+      const created = await createSession();
+      localStorage.setItem(HOST_KEY, JSON.stringify(created));
+      setView(null);
+      setSeat(created);
+    } catch {
+      setError('SERVER UNREACHABLE');
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#1a0505] text-white font-vt flex flex-col items-center p-6 gap-6">
+      <h1 className="text-2xl font-pixel text-red-500 drop-shadow-[4px_4px_0_#000] text-center mt-4">HELL'S KITCHEN HOST</h1>
+      {error && <p className="font-pixel text-xs text-red-500">{error}</p>}
+      {seat && view && (
+        <div className="w-full max-w-3xl flex flex-col items-center gap-6">
+          <div className="text-center">
+            <p className="text-2xl text-orange-300">PLAYERS JOIN WITH</p>
+            <p className="font-pixel text-5xl text-yellow-300 tracking-widest drop-shadow-[4px_4px_0_#000]">{view.settings.code}</p>
+          </div>
+          <div className="w-full bg-black/80 border-4 border-red-900 pixel-shadow p-6">
+            <PlayerTable view={view} receivedAt={receivedAt} />
+          </div>
+          <Controls key={view.settings.code} seat={seat} settings={view.settings} onError={setError} />
+        </div>
+      )}
+      <div className="flex flex-wrap gap-2 justify-center">
+        {seat && <a href={resultsCsvUrl(seat.code, seat.hostToken)} className={buttonClass}>EXPORT CSV</a>}
+        <button onClick={startSession} disabled={pending} className={buttonClass}>{seat ? 'NEW SESSION' : 'START A SESSION'}</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { joinSession, type SessionConfig, type SessionSeat } from '../api/sessions';
+import { ApiError } from '../api/http';
+import { useI18n } from '../i18n';
+
+const fieldClass = 'p-3 bg-black border-4 border-white text-white font-vt text-2xl uppercase outline-none focus:border-red-500';
+const buttonClass = 'px-6 py-3 bg-zinc-900 hover:bg-zinc-800 text-orange-300 font-pixel text-sm border-4 border-black pixel-shadow-sm cursor-pointer disabled:opacity-40';
+
+/** Joins a host's live session at an event with the code on their screen. */
+export const JoinEvent = ({ onJoined, onBack }: { onJoined: (seat: SessionSeat, config: SessionConfig) => void, onBack: () => void }) => {
+  const { t } = useI18n();
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [error, setError] = useState('');
+  const [pending, setPending] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim() || !name.trim() || pending) return;
+    setPending(true);
+    try {
+      const { seat, config } = await joinSession(code, name.trim());
+      onJoined(seat, config);
+    } catch (err) {
+      setError(err instanceof ApiError && err.status === 404 ? t('event.unknownCode') : err instanceof ApiError ? err.message.toUpperCase() : t('event.unreachable'));
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-6">
+      <h2 className="text-3xl font-pixel text-red-500 drop-shadow-[4px_4px_0_#000]">{t('event.title')}</h2>
+      <form onSubmit={handleSubmit} className="w-full max-w-md bg-black/80 border-4 border-red-900 pixel-shadow p-6 flex flex-col gap-4 font-pixel text-xs text-orange-300">
+        <label className="flex flex-col gap-2">
+          {t('event.code')}
+          <input className={`${fieldClass} tracking-widest`} value={code} maxLength={8} onChange={(e) => { setCode(e.target.value); setError(''); }} autoFocus />
+        </label>
+        <label className="flex flex-col gap-2">
+          {t('event.name')}
+          <input className={fieldClass} value={name} maxLength={16} onChange={(e) => { setName(e.target.value); setError(''); }} />
+        </label>
+        <button type="submit" disabled={pending || !code.trim() || !name.trim()} className="px-4 py-3 bg-red-600 hover:bg-red-500 text-white font-pixel text-sm border-4 border-black disabled:opacity-50 cursor-pointer">
+          {t('event.join')}
+        </button>
+        {error && <p className="text-red-500">{error}</p>}
+      </form>
+      <button onClick={onBack} className={buttonClass}>{t('event.back')}</button>
+    </div>
+  );
+};
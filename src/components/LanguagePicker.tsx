@@ -0,0 +1,18 @@
+import React from 'react';
+import { LOCALES, type Locale } from '../i18n';
+
+export const LanguagePicker = ({ locale, onChange }: { locale: Locale, onChange: (locale: Locale) => void }) => (
+  <div className="flex flex-wrap gap-2 justify-center">
+    {LOCALES.map(l => (
+      <button
+        key={l.id}
+        lang={l.id}
+        onClick={() => onChange(l.id)}
+        aria-pressed={l.id === locale}
+        className={`px-3 py-2 font-pixel text-xs border-4 border-black pixel-shadow-sm cursor-pointer ${l.id === locale ? 'bg-red-600 text-white' : 'bg-zinc-900 text-orange-300 hover:bg-zinc-800'}`}
+      >
+        {l.label}
+      </button>
+    ))}
+  </div>
+);
@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import { fetchOverall, fetchDaily, fetchLevelSplits, type RunEntry, type SplitEntry } from '../api/leaderboard';
+import { formatTime } from '../game/time';
+import { LEVELS } from '../levels/manifest';
+import { useI18n, localizeLevel, type MessageKey } from '../i18n';
+
+type Tab = 'overall' | 'levels' | 'daily';
+
+const TABS: { id: Tab, label: MessageKey }[] = [
+  { id: 'overall', label: 'board.overall' },
+  { id: 'levels', label: 'board.levels' },
+  { id: 'daily', label: 'board.daily' },
+];
+
+const RunTable = ({ entries }: { entries: RunEntry[] }) => {
+  const { t } = useI18n();
+  return (
+    <table className="w-full font-vt text-2xl">
+      <thead>
+        <tr className="text-orange-300 text-start">
+          <th className="w-12">#</th><th>{t('board.name')}</th><th className="text-end">{t('board.time')}</th><th className="text-end">{t('board.score')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((e, i) => (
+          <tr key={e.id} className={i === 0 ? 'text-yellow-300' : 'text-white'}>
+            <td>{i + 1}</td><td>{e.name}</td><td className="text-end">{formatTime(e.totalMs)}</td><td className="text-end">{e.score}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const SplitTables = ({ levels }: { levels: Record<string, SplitEntry[]> }) => {
+  const i18n = useI18n();
+  return (
+    <div className="grid grid-cols-3 gap-4 font-vt text-xl">
+      {LEVELS.map(level => (
+        <div key={level.id}>
+          <h3 className="font-pixel text-xs text-red-500 mb-2">{localizeLevel(i18n, level).title}</h3>
+          {(levels[level.id] ?? []).map((e, i) => (
+            <p key={i} className={i === 0 ? 'text-yellow-300' : 'text-white'}>{i + 1}. {e.name} {formatTime(e.ms)}</p>
+          ))}
+          {!levels[level.id] && <p className="text-zinc-500">{i18n.t('board.noTimes')}</p>}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const Leaderboard = ({ onBack }: { onBack: () => void }) => {
+  const [tab, setTab] = useState<Tab>('overall');
+  const [runs, setRuns] = useState<RunEntry[] | null>(null);
+  const [splits, setSplits] = useState<Record<string, SplitEntry[]> | null>(null);
+  const [error, setError] = useState('');
+  const i18n = useI18n();
+
+  useEffect(() => {
+    let cancelled = false;
+    setError('');
+    setRuns(null);
+    setSplits(null);
+
+    const load = tab === 'levels'
+      ? fetchLevelSplits().then(r => { if (!cancelled) setSplits(r.levels); })
+      : (tab === 'daily' ? fetchDaily() : fetchOverall()).then(r => { if (!cancelled) setRuns(r.entries); });
+    load.catch(() => { if (!cancelled) setError(i18n.t('board.unavailable')); });
+
+    return () => { cancelled = true; };
+  }, [tab]);
+
+  const empty = (runs && runs.length === 0) || (splits && Object.keys(splits).length === 0);
+
+  return (
+    <div className="flex flex-col items-center gap-6">
+      <h2 className="text-3xl font-pixel text-red-500 drop-shadow-[4px_4px_0_#000]">{i18n.t('board.title')}</h2>
+      <div className="flex gap-2">
+        {TABS.map(t => (
+          <button
+            key={t.id}
+            onClick={() => setTab(t.id)}
+            className={`px-4 py-2 font-pixel text-xs border-4 border-black pixel-shadow-sm cursor-pointer ${tab === t.id ? 'bg-red-600 text-white' : 'bg-zinc-900 text-orange-300 hover:bg-zinc-800'}`}
+          >
+            {i18n.t(t.label)}
+          </button>
+        ))}
+      </div>
+
+      <div className="w-full bg-black/80 border-4 border-red-900 pixel-shadow p-6 min-h-64">
+        {error && <p className="font-pixel text-sm text-red-500">{error}</p>}
+        {!error && !runs && !splits && <p className="font-vt text-2xl text-zinc-400">{i18n.t('board.loading')}</p>}
+        {empty && <p className="font-vt text-2xl text-zinc-400">{i18n.t('board.empty')}</p>}
+        {runs && runs.length > 0 && <RunTable entries={runs} />}
+        {splits && Object.keys(splits).length > 0 && <SplitTables levels={splits} />}
+      </div>
+
+      <button onClick={onBack} className="px-6 py-3 bg-zinc-900 hover:bg-zinc-800 text-orange-300 font-pixel text-sm border-4 border-black pixel-shadow-sm cursor-pointer">
+        {i18n.t('board.back')}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,405 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { GAME_WIDTH, GAME_HEIGHT, PLAYER_SIZE, GRID_SIZE } from '../game/constants';
+import type { Obstacle } from '../game/movement';
+import { validateLevel, LevelValidationError, INGREDIENT_KINDS, type InteractableKind, type LevelDefinition, type StirDirection, type WinCondition } from '../levels/schema';
+import { INTERACTABLE_SIZE, DECOR_SIZE, snap, findLayoutIssues, createBlankLevel } from '../levels/layout';
+import { ENEMY_SIZE, DEFAULT_HEALTH } from '../game/hazards';
+import { DEFAULT_CARRY_LIMIT } from '../game/interactions';
+import { findReachabilityIssues } from '../levels/solvability';
+import { LevelRunner, Cauldron } from './LevelRunner';
+import { downloadJson } from './download';
+import { Lava, DevilDecor, Rock, Player, Pot, Stove, Door, Spoon, Ingredient } from './sprites';
+import { newRunId } from '../api/puzzles';
+
+type Selection =
+  | { type: 'spawn' }
+  | { type: 'spawn2' }
+  | { type: 'obstacle', index: number }
+  | { type: 'interactable', index: number }
+  | { type: 'decor', index: number }
+  | { type: 'enemy', index: number };
+
+type Drag = { sel: Selection, mode: 'move' | 'resize', offsetX: number, offsetY: number };
+
+const sameSel = (a: Selection | null, b: Selection) =>
+  !!a && a.type === b.type && (a.type === 'spawn' || a.type === 'spawn2' || (a as { index: number }).index === (b as { index: number }).index);
+
+const defaultWin = (type: WinCondition['type'], level: LevelDefinition): WinCondition => {
+  const first = (kind: InteractableKind) => level.interactables.find(it => it.kind === kind)?.id ?? '';
+  switch (type) {
+    case 'cook':
+      return { type, stove: first('stove'), item: 'pot', delayMs: 1500 };
+    case 'riddle':
+      return { type, door: first('door'), prompt: 'Scan to find the ingredients, then name them all.', puzzle: 'tomato-soup' };
+    case 'stir':
+      return { type, cauldron: first('cauldron'), tool: 'spoon', target: 100, delayMs: 500 };
+    case 'state':
+      return { type, target: first('stove'), state: 'lit', delayMs: 1500 };
+  }
+};
+
+// Point the win condition at an existing interactable when its target was removed or never set
+const relinkWin = (level: LevelDefinition): LevelDefinition => {
+  const { win } = level;
+  const exists = (id: string) => level.interactables.some(it => it.id === id);
+  const fresh = defaultWin(win.type, level);
+  if (win.type === 'cook' && fresh.type === 'cook' && !exists(win.stove)) return { ...level, win: { ...win, stove: fresh.stove } };
+  if (win.type === 'riddle' && fresh.type === 'riddle' && !exists(win.door)) return { ...level, win: { ...win, door: fresh.door } };
+  if (win.type === 'stir' && fresh.type === 'stir' && !exists(win.cauldron)) return { ...level, win: { ...win, cauldron: fresh.cauldron } };
+  if (win.type === 'state' && fresh.type === 'state' && !exists(win.target)) return { ...level, win: { ...win, target: fresh.target } };
+  return level;
+};
+
+const nextId = (level: LevelDefinition, kind: InteractableKind) => {
+  let n = 1;
+  while (level.interactables.some(it => it.id === `${kind}${n}`)) n++;
+  return `${kind}${n}`;
+};
+
+const PALETTE: { label: string, add: (level: LevelDefinition) => LevelDefinition }[] = [
+  { label: 'ROCK', add: l => ({ ...l, obstacles: [...l.obstacles, { x: 320, y: 128, w: GRID_SIZE, h: GRID_SIZE * 2 }] }) },
+  ...(['pot', 'stove', 'door', 'spoon', 'cauldron', ...INGREDIENT_KINDS] as InteractableKind[]).map(kind => ({
+    label: kind.toUpperCase(),
+    add: (l: LevelDefinition) => ({ ...l, interactables: [...l.interactables, { id: nextId(l, kind), kind, x: 320, y: 128 }] }),
+  })),
+  { label: 'DEVIL', add: l => ({ ...l, decor: [...l.decor, { kind: 'devil' as const, x: 320, y: 64 }] }) },
+  { label: 'ENEMY', add: l => ({ ...l, enemies: [...(l.enemies ?? []), { kind: 'devil' as const, x: 320, y: 64 }] }) },
+];
+
+const fieldClass = 'w-full p-2 bg-black border-4 border-white text-white font-vt text-xl focus:border-red-500 outline-none';
+const buttonClass = 'px-3 py-2 bg-red-600 hover:bg-red-500 text-white font-pixel text-xs border-4 border-black pixel-shadow-sm cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed';
+
+export const LevelEditor = ({ initial, onExit }: { initial?: LevelDefinition, onExit: () => void }) => {
+  const [draft, setDraft] = useState<LevelDefinition>(() => structuredClone(initial ?? createBlankLevel()));
+  const [selected, setSelected] = useState<Selection | null>(null);
+  const [snapToGrid, setSnapToGrid] = useState(true);
+  const [playing, setPlaying] = useState(false);
+  const [playRun, setPlayRun] = useState(0);
+  // Play-tests are a run of their own as far as the riddle door's tries go
+  const [playId] = useState(newRunId);
+  const [notice, setNotice] = useState('');
+  const boardRef = useRef<HTMLDivElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const drag = useRef<Drag | null>(null);
+
+  const update = (fn: (l: LevelDefinition) => LevelDefinition) => setDraft(l => relinkWin(fn(l)));
+
+  const errors = useMemo(() => {
+    try {
+      validateLevel(draft);
+      return [];
+    } catch (e) {
+      if (e instanceof LevelValidationError) return e.issues;
+      throw e;
+    }
+  }, [draft]);
+  const warnings = useMemo(() => [...findLayoutIssues(draft), ...findReachabilityIssues(draft)], [draft]);
+
+  const rectOf = (sel: Selection): Obstacle => {
+    switch (sel.type) {
+      case 'spawn':
+        return { ...draft.spawn, w: PLAYER_SIZE, h: PLAYER_SIZE };
+      case 'spawn2':
+        return { ...draft.coop!.spawn, w: PLAYER_SIZE, h: PLAYER_SIZE };
+      case 'obstacle':
+        return draft.obstacles[sel.index];
+      case 'interactable': {
+        const it = draft.interactables[sel.index];
+        return { x: it.x, y: it.y, ...INTERACTABLE_SIZE[it.kind] };
+      }
+      case 'decor': {
+        const d = draft.decor[sel.index];
+        return { x: d.x, y: d.y, ...DECOR_SIZE[d.kind] };
+      }
+      case 'enemy': {
+        const en = draft.enemies![sel.index];
+        return { x: en.x, y: en.y, ...ENEMY_SIZE };
+      }
+    }
+  };
+
+  const moveTo = (sel: Selection, x: number, y: number) => update(l => {
+    switch (sel.type) {
+      case 'spawn':
+        return { ...l, spawn: { x, y } };
+      case 'spawn2':
+        return { ...l, coop: { spawn: { x, y } } };
+      case 'obstacle':
+        return { ...l, obstacles: l.obstacles.map((o, i) => i === sel.index ? { ...o, x, y } : o) };
+      case 'interactable':
+        return { ...l, interactables: l.interactables.map((it, i) => i === sel.index ? { ...it, x, y } : it) };
+      case 'decor':
+        return { ...l, decor: l.decor.map((d, i) => i === sel.index ? { ...d, x, y } : d) };
+      case 'enemy':
+        // The patrol path travels with its devil
+        return {
+          ...l,
+          enemies: l.enemies!.map((en, i) => i === sel.index
+            ? { ...en, x, y, path: en.path?.map(p => ({ x: p.x + x - en.x, y: p.y + y - en.y })) }
+            : en),
+        };
+    }
+  });
+
+  const removeSelected = () => {
+    if (!selected || selected.type === 'spawn') return;
+    const sel = selected;
+    update(l => {
+      switch (sel.type) {
+        // Without a second spawn the level is single-player again
+        case 'spawn2':
+          return { ...l, coop: undefined };
+        case 'obstacle':
+          return { ...l, obstacles: l.obstacles.filter((_, i) => i !== sel.index) };
+        case 'interactable':
+          return { ...l, interactables: l.interactables.filter((_, i) => i !== sel.index) };
+        case 'decor':
+          return { ...l, decor: l.decor.filter((_, i) => i !== sel.index) };
+        case 'enemy':
+          return { ...l, enemies: l.enemies!.filter((_, i) => i !== sel.index) };
+      }
+    });
+    setSelected(null);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (playing || (e.target as HTMLElement).closest('input, textarea, select')) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        removeSelected();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const boardPoint = (e: React.PointerEvent) => {
+    const rect = boardRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const startDrag = (e: React.PointerEvent, sel: Selection, mode: Drag['mode']) => {
+    e.stopPropagation();
+    const p = boardPoint(e);
+    const r = rectOf(sel);
+    drag.current = mode === 'move'
+      ? { sel, mode, offsetX: p.x - r.x, offsetY: p.y - r.y }
+      : { sel, mode, offsetX: 0, offsetY: 0 };
+    setSelected(sel);
+    boardRef.current!.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const d = drag.current;
+    if (!d) return;
+    const p = boardPoint(e);
+    const round = (v: number) => snapToGrid ? snap(v) : Math.round(v);
+
+    if (d.mode === 'move') {
+      moveTo(d.sel, round(p.x - d.offsetX), round(p.y - d.offsetY));
+    } else if (d.sel.type === 'obstacle') {
+      const index = d.sel.index;
+      update(l => ({
+        ...l,
+        obstacles: l.obstacles.map((o, i) => i === index
+          ? { ...o, w: Math.max(GRID_SIZE / 4, round(p.x - o.x)), h: Math.max(GRID_SIZE / 4, round(p.y - o.y)) }
+          : o),
+      }));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    drag.current = null;
+    if (boardRef.current?.hasPointerCapture(e.pointerId)) boardRef.current.releasePointerCapture(e.pointerId);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setDraft(validateLevel(JSON.parse(await file.text())));
+      setSelected(null);
+      setNotice(`IMPORTED ${file.name}`);
+    } catch (err) {
+      setNotice(err instanceof LevelValidationError
+        ? `IMPORT FAILED: ${err.issues.join('; ')}`
+        : `IMPORT FAILED: ${file.name} is not valid JSON`);
+    }
+  };
+
+  if (playing) {
+    return (
+      <div className="flex flex-col items-center">
+        <LevelRunner
+          key={playRun}
+          level={draft}
+          runId={playId}
+          onComplete={() => { setPlaying(false); setNotice('PLAY-TEST CLEARED!'); }}
+          onRestart={() => setPlayRun(n => n + 1)}
+        />
+        <button onClick={() => setPlaying(false)} className={`${buttonClass} mt-6`}>BACK TO EDITOR</button>
+      </div>
+    );
+  }
+
+  const selectable = (sel: Selection, children: React.ReactNode, resizable = false) => {
+    const r = rectOf(sel);
+    const isSelected = sameSel(selected, sel);
+    return (
+      <div
+        key={JSON.stringify(sel)}
+        className={`absolute cursor-move ${isSelected ? 'outline outline-4 outline-yellow-300 z-40' : 'z-30'}`}
+        style={{ left: r.x, top: r.y, width: r.w, height: r.h }}
+        onPointerDown={(e) => startDrag(e, sel, 'move')}
+      >
+        <div className="pointer-events-none">{children}</div>
+        {resizable && isSelected && (
+          <div
+            className="absolute -right-2 -bottom-2 w-4 h-4 bg-yellow-300 border-2 border-black cursor-nwse-resize"
+            onPointerDown={(e) => startDrag(e, sel, 'resize')}
+          />
+        )}
+      </div>
+    );
+  };
+
+  const origin = { x: 0, y: 0 };
+  const { win } = draft;
+
+  return (
+    <div className="flex flex-col items-center gap-4 py-6">
+      <h2 className="text-3xl font-pixel text-red-500 drop-shadow-[4px_4px_0_#000]">LEVEL EDITOR</h2>
+
+      <div className="flex flex-wrap gap-2 justify-center">
+        {PALETTE.map(p => (
+          <button key={p.label} onClick={() => update(p.add)} className={buttonClass}>+ {p.label}</button>
+        ))}
+        <button onClick={removeSelected} disabled={!selected || selected.type === 'spawn'} className={buttonClass}>DELETE</button>
+        <label className="flex items-center gap-2 font-pixel text-xs text-orange-300 px-2">
+          <input type="checkbox" checked={snapToGrid} onChange={(e) => setSnapToGrid(e.target.checked)} />
+          SNAP {GRID_SIZE}PX
+        </label>
+      </div>
+
+      <div className="relative bg-zinc-950 border-8 border-red-900 pixel-shadow" style={{ width: GAME_WIDTH + 16, height: GAME_HEIGHT + 16 }}>
+        <div
+          ref={boardRef}
+          className="absolute inset-0 overflow-hidden"
+          style={{ backgroundImage: 'linear-gradient(#330000 2px, transparent 2px), linear-gradient(90deg, #330000 2px, transparent 2px)', backgroundSize: `${GRID_SIZE}px ${GRID_SIZE}px` }}
+          onPointerDown={() => setSelected(null)}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          {draft.lava && <div className="pointer-events-none"><Lava /></div>}
+          {draft.decor.map((d, i) => selectable({ type: 'decor', index: i }, <DevilDecor pos={origin} flip={d.flip} />))}
+          {(draft.enemies ?? []).map((en, i) => selectable({ type: 'enemy', index: i }, <DevilDecor pos={origin} hostile alert />))}
+          {draft.obstacles.map((obs, i) => selectable({ type: 'obstacle', index: i }, <Rock obs={{ ...obs, x: 0, y: 0 }} />, true))}
+          {draft.interactables.map((it, i) => selectable({ type: 'interactable', index: i }, (() => {
+            switch (it.kind) {
+              case 'pot': return <Pot pos={origin} />;
+              case 'spoon': return <Spoon pos={origin} />;
+              case 'tomato':
+              case 'onion':
+              case 'garlic':
+              case 'basil':
+                return <Ingredient pos={origin} kind={it.kind} />;
+              case 'stove': return <Stove pos={origin} hasPot={false} isLit={false} />;
+              case 'door': return <Door pos={origin} />;
+              case 'cauldron': return <Cauldron pos={origin} label={it.label} spoons={[0]} direction={win.type === 'stir' ? win.direction ?? 'cw' : 'cw'} splashing={false} canStir={false} onStir={() => {}} />;
+            }
+          })()))}
+          {selectable({ type: 'spawn' }, <Player pos={origin} dir={1} />)}
+          {draft.coop && selectable({ type: 'spawn2' }, <Player pos={origin} dir={1} player={1} />)}
+        </div>
+      </div>
+
+      {selected && (
+        <p className="font-vt text-xl text-orange-300">
+          {(() => { const r = rectOf(selected); return `SELECTED: x ${r.x}  y ${r.y}  w ${r.w}  h ${r.h}`; })()}
+        </p>
+      )}
+
+      <div className="w-full grid grid-cols-2 gap-4 font-vt text-xl">
+        <label className="flex flex-col gap-1">ID<input className={fieldClass} value={draft.id} onChange={(e) => update(l => ({ ...l, id: e.target.value }))} /></label>
+        <label className="flex flex-col gap-1">TITLE<input className={fieldClass} value={draft.title} onChange={(e) => update(l => ({ ...l, title: e.target.value }))} /></label>
+        <label className="flex flex-col gap-1 col-span-2">INSTRUCTIONS (ONE LINE EACH)
+          <textarea className={fieldClass} rows={2} value={draft.instructions.join('\n')} onChange={(e) => update(l => ({ ...l, instructions: e.target.value.split('\n') }))} />
+        </label>
+        <label className="flex flex-col gap-1">WIN CONDITION
+          <select className={fieldClass} value={win.type} onChange={(e) => update(l => ({ ...l, win: defaultWin(e.target.value as WinCondition['type'], l) }))}>
+            <option value="cook">COOK: BRING POT TO STOVE</option>
+            <option value="riddle">RIDDLE: ANSWER AT DOOR</option>
+            <option value="stir">STIR: FILL THE CAULDRON</option>
+            <option value="state">STATE: REACH A STATE</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">HEARTS
+          <input type="number" min={1} className={fieldClass} value={draft.health ?? DEFAULT_HEALTH} onChange={(e) => update(l => ({ ...l, health: Number(e.target.value) }))} />
+        </label>
+        <label className="flex flex-col gap-1">CARRY LIMIT
+          <input type="number" min={1} className={fieldClass} value={draft.carryLimit ?? DEFAULT_CARRY_LIMIT} onChange={(e) => update(l => ({ ...l, carryLimit: Number(e.target.value) }))} />
+        </label>
+        <label className="flex items-center gap-2 mt-6">
+          <input type="checkbox" checked={draft.lava} onChange={(e) => update(l => ({ ...l, lava: e.target.checked }))} />
+          LAVA STRIP
+        </label>
+        <label className="flex items-center gap-2 mt-6">
+          <input type="checkbox" checked={!!draft.coop} onChange={(e) => {
+            const on = e.target.checked;
+            if (!on && selected?.type === 'spawn2') setSelected(null);
+            update(l => ({ ...l, coop: on ? { spawn: { x: l.spawn.x, y: l.spawn.y + GRID_SIZE } } : undefined }));
+          }} />
+          CO-OP (SECOND SPAWN)
+        </label>
+        {win.type === 'riddle' && (
+          <>
+            <label className="flex flex-col gap-1">QR URL<input className={fieldClass} value={win.qrUrl ?? ''} placeholder="BUILT-IN CLUE PAGE" onChange={(e) => update(l => ({ ...l, win: { ...win, qrUrl: e.target.value || undefined } }))} /></label>
+            <label className="flex flex-col gap-1">PROMPT<input className={fieldClass} value={win.prompt} onChange={(e) => update(l => ({ ...l, win: { ...win, prompt: e.target.value } }))} /></label>
+            <label className="flex flex-col gap-1">PUZZLE ID<input className={fieldClass} value={win.puzzle} onChange={(e) => update(l => ({ ...l, win: { ...win, puzzle: e.target.value } }))} /></label>
+          </>
+        )}
+        {win.type === 'state' && (
+          <>
+            <label className="flex flex-col gap-1">TARGET
+              <select className={fieldClass} value={win.target} onChange={(e) => update(l => ({ ...l, win: { ...win, target: e.target.value } }))}>
+                {draft.interactables.map(it => <option key={it.id} value={it.id}>{it.id}</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">STATE<input className={fieldClass} value={win.state} onChange={(e) => update(l => ({ ...l, win: { ...win, state: e.target.value } }))} /></label>
+          </>
+        )}
+        {win.type === 'stir' && (
+          <>
+            <label className="flex flex-col gap-1">STIR TARGET<input type="number" min={1} className={fieldClass} value={win.target} onChange={(e) => update(l => ({ ...l, win: { ...win, target: Number(e.target.value) } }))} /></label>
+            <label className="flex flex-col gap-1">DIRECTION
+              <select className={fieldClass} value={win.direction ?? 'cw'} onChange={(e) => update(l => ({ ...l, win: { ...win, direction: e.target.value as StirDirection } }))}>
+                <option value="cw">CLOCKWISE</option>
+                <option value="ccw">COUNTER-CLOCKWISE</option>
+              </select>
+            </label>
+          </>
+        )}
+      </div>
+
+      {(errors.length > 0 || warnings.length > 0) && (
+        <ul className="w-full font-vt text-xl bg-black/80 border-4 border-red-900 p-4">
+          {errors.map(msg => <li key={msg} className="text-red-500">ERROR: {msg}</li>)}
+          {warnings.map(msg => <li key={msg} className="text-yellow-300">WARNING: {msg}</li>)}
+        </ul>
+      )}
+      {notice && <p className="font-pixel text-xs text-yellow-300">{notice}</p>}
+
+      <div className="flex flex-wrap gap-2 justify-center">
+        <button onClick={() => { setNotice(''); setPlaying(true); }} disabled={errors.length > 0} className={buttonClass}>PLAY-TEST</button>
+        <button onClick={() => downloadJson(`${draft.id}.json`, draft)} className={buttonClass}>EXPORT</button>
+        <button onClick={() => fileRef.current?.click()} className={buttonClass}>IMPORT</button>
+        <button onClick={() => { setDraft(createBlankLevel()); setSelected(null); }} className={buttonClass}>NEW</button>
+        <button onClick={onExit} className={buttonClass}>EXIT</button>
+        <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,528 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { GAME_WIDTH, GAME_HEIGHT, PLAYER_SIZE } from '../game/constants';
+import { useGameLoop, interpolate, sameView, type Vec2 } from '../game/movement';
+import { useInput, virtualStick } from '../game/input';
+import { motion } from 'motion/react';
+import { RotateCw, RotateCcw } from 'lucide-react';
+import type { LevelDefinition, Recipe, StirDirection } from '../levels/schema';
+import { Lava, DevilDecor, Rock, Player, Pot, Stove, Door, Spoon, Ingredient, Hearts } from './sprites';
+import { ScaledBoard } from './ScaledBoard';
+import { QrCode } from './QrCode';
+import { TouchControls, useCoarsePointer } from './TouchControls';
+import { submitAnswer, fetchPuzzle, startAttempt, clueUrl, type AnswerResponse, type AttemptInfo, type PuzzleInfo } from '../api/puzzles';
+import { ApiError } from '../api/http';
+import type { LevelStats } from '../game/score';
+import { DEFAULT_HEALTH } from '../game/hazards';
+import { findInteraction, TAKEN } from '../game/interactions';
+import { isBurning, BURNT_AT, type CookState } from '../game/cooking';
+import {
+  createGame,
+  stepGame,
+  applyAction,
+  positionsOf,
+  isCoop,
+  doorOpen,
+  dishFailed,
+  isGameOver,
+  cauldronOf,
+  canStirAt,
+  type AnswerAttempt,
+  type GameAction,
+  type GameEvent,
+  type GameResult,
+  type GameSound,
+} from '../game/engine';
+import { playPickup, playWhoosh, playDoor, playBubble, playBuzz, playHurt, playDrop, playSplash } from '../audio/sfx';
+import { recordInput, recordEvent, inputAt, type LevelRecording } from '../game/replay';
+import { useI18n, localizeLevel } from '../i18n';
+import { devTools, applyCheat } from '../game/devtools';
+import { DebugOverlay } from './DebugOverlay';
+
+// --- LEVEL PIECES ---
+// Every submitted answer lives with the runner so a replay can show them; this only draws the latest.
+// `puzzle` is null until the server has said which puzzle the door asks (the level may name an alias
+// like 'daily'), and `attempt` until it has handed out the token answers are counted against.
+// `docked` keeps it in a corner instead of covering the board, for co-op where the game carries on.
+const RiddlePopup = ({ qrUrl, prompt, puzzle, attempt, unreachable, answers, onAnswer, readOnly, docked }: { qrUrl?: string, prompt: string, puzzle: PuzzleInfo | null, attempt: AttemptInfo | null, unreachable: boolean, answers: AnswerAttempt[], onAnswer: (answer: string, result: AnswerResponse) => void, readOnly?: boolean, docked?: boolean }) => {
+  const [input, setInput] = useState("");
+  const [error, setError] = useState("");
+  const [pending, setPending] = useState(false);
+  const { t, dir } = useI18n();
+
+  const last = answers[answers.length - 1];
+  const sealed = !!last && !last.result.solved && last.result.attemptsLeft <= 0;
+
+  // Tries spent earlier in the run, before the level was restarted, stay spent
+  const hints = last ? last.result.hints : attempt?.hints ?? [];
+  let feedback = "";
+  if (last?.result.solved) feedback = t('riddle.solved', { correct: last.result.correct, total: last.result.total });
+  else if (last) feedback = t('riddle.feedback', { correct: last.result.correct, total: last.result.total, count: last.result.attemptsLeft });
+  else if (puzzle && attempt && attempt.attemptsLeft < puzzle.maxAttempts) feedback = t('riddle.left', { count: attempt.attemptsLeft });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (pending || sealed || readOnly || !puzzle || !attempt) return;
+    if (!input.trim()) {
+      setError(t('riddle.empty'));
+      return;
+    }
+
+    setPending(true);
+    try {
+      onAnswer(input, await submitAnswer(puzzle.id, attempt.attempt, input));
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message.toUpperCase() : t('riddle.unreachable'));
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className={docked ? 'absolute top-2 right-2 bottom-2 z-50 w-96 flex flex-col justify-center' : 'absolute inset-0 bg-black/80 z-50 flex flex-col items-center justify-center p-8'}>
+      {/* The board is always laid out left to right; its text still reads in the player's language */}
+      <div dir={dir} className={`bg-zinc-900 border-4 border-black pixel-shadow flex flex-col items-center max-w-lg w-full max-h-full overflow-y-auto ${docked ? 'p-4 opacity-95' : 'p-6'}`}>
+        {puzzle ? (
+          <>
+            <QrCode text={qrUrl ?? clueUrl(puzzle.id)} className="w-32 h-32 mb-1" />
+            <p className="font-vt text-lg text-zinc-400 mb-4 break-all text-center">{qrUrl ?? clueUrl(puzzle.id)}</p>
+          </>
+        ) : (
+          <p className="font-pixel text-xs text-orange-300 mb-4">{t('riddle.thinking')}</p>
+        )}
+        <p className="text-2xl font-vt text-orange-300 mb-2 text-center">{prompt}</p>
+        {sealed ? (
+          <p className="text-red-500 font-pixel text-sm text-center">{t('riddle.sealed')}</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="w-full flex flex-col gap-2">
+            <input
+              type="text"
+              value={readOnly ? last?.answer ?? "" : input}
+              onChange={(e) => { setInput(e.target.value); setError(""); }}
+              placeholder={t('riddle.placeholder')}
+              className="w-full p-3 bg-black border-4 border-white text-white font-vt text-2xl uppercase focus:border-red-500 outline-none"
+              readOnly={readOnly}
+              autoFocus={!readOnly}
+            />
+            {(error || unreachable) && <p className="text-red-500 font-pixel text-sm">{error || t('riddle.unreachable')}</p>}
+            {feedback && <p className="text-yellow-300 font-pixel text-xs">{feedback}</p>}
+            {!last?.result.solved && hints.map((hint, i) => <p key={i} className="text-orange-300 font-vt text-xl">{t('riddle.hint', { n: i + 1, hint })}</p>)}
+            {!readOnly && (
+              <button type="submit" disabled={pending || !attempt} className="bg-red-600 text-white font-pixel p-3 border-4 border-black hover:bg-red-500 disabled:opacity-50">
+                {pending ? '...' : t('riddle.submit')}
+              </button>
+            )}
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Pointer positions are reported as angles around the pot's centre, clockwise from east
+export const Cauldron = ({ pos, label, spoons, direction, splashing, canStir, onStir, onStrokeStart }: { pos: Vec2, label?: string, spoons: number[], direction: StirDirection, splashing: boolean, canStir: boolean, onStir: (angle: number) => void, onStrokeStart?: (angle: number) => void, key?: React.Key }) => {
+  const isStirring = useRef(false);
+
+  const angleOf = (e: React.PointerEvent) => {
+    const r = e.currentTarget.getBoundingClientRect();
+    return Math.atan2(e.clientY - (r.top + r.height / 2), e.clientX - (r.left + r.width / 2));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!canStir) return;
+    isStirring.current = true;
+    onStrokeStart?.(angleOf(e));
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    isStirring.current = false;
+    (e.target as HTMLElement).releasePointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!isStirring.current || !canStir) return;
+    onStir(angleOf(e));
+  };
+
+  const Arrow = direction === 'ccw' ? RotateCcw : RotateCw;
+
+  return (
+    <div
+      className={`absolute w-48 h-48 bg-zinc-900 rounded-full border-8 border-black pixel-shadow z-10 flex items-center justify-center ${canStir ? 'cursor-pointer' : ''}`}
+      style={{ left: pos.x, top: pos.y, touchAction: 'none' }}
+      onPointerDown={handlePointerDown}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerMove={handlePointerMove}
+    >
+      <div className="w-40 h-40 rounded-full bg-red-600 border-4 border-red-800 relative pointer-events-none overflow-hidden">
+        <div className="w-8 h-8 bg-red-800 border-2 border-black absolute top-4 left-4" />
+        <div className="w-10 h-6 bg-orange-700 border-2 border-black absolute bottom-8 right-8" />
+        <div className="w-6 h-6 bg-green-700 border-2 border-black absolute top-12 right-10" />
+
+        <div className="w-full h-full rounded-full border-8 border-t-red-400 border-r-transparent border-b-red-800 border-l-transparent absolute" />
+      </div>
+      {/* Each spoon sweeps round the rim, pointing at its last stir angle */}
+      {spoons.map((angle, i) => (
+        <div key={i} className="absolute inset-0 pointer-events-none" style={{ transform: `rotate(${angle}rad)` }}>
+          <div className="absolute top-1/2 right-4 w-14 h-3 -mt-1.5 bg-amber-700 border-2 border-black" />
+        </div>
+      ))}
+      {splashing && [-1, 0, 1].map(i => (
+        <motion.div
+          key={i}
+          initial={{ x: 0, y: 0, opacity: 1 }}
+          animate={{ x: i * 48, y: -56, opacity: 0 }}
+          transition={{ duration: 0.5 }}
+          className="absolute top-6 w-4 h-4 bg-red-500 border-2 border-black pointer-events-none"
+        />
+      ))}
+      <Arrow className="absolute -top-8 text-orange-300" size={24} strokeWidth={3} />
+      {label && <div className="absolute -bottom-8 w-full text-center text-xl font-pixel text-red-500">{label}</div>}
+    </div>
+  );
+};
+
+const HeatButton = ({ delta, label }: { delta: number, label: string }) => {
+  const set = (down: boolean) => { virtualStick.heat = down ? delta : 0; };
+  useEffect(() => () => { virtualStick.heat = 0; }, []);
+  return (
+    <button
+      className="w-8 h-8 bg-red-600 active:bg-orange-500 border-2 border-black text-white font-pixel text-xs cursor-pointer"
+      style={{ touchAction: 'none' }}
+      onPointerDown={() => set(true)}
+      onPointerUp={() => set(false)}
+      onPointerCancel={() => set(false)}
+      onPointerLeave={() => set(false)}
+    >
+      {label}
+    </button>
+  );
+};
+
+// Heat knob, cook meter with the recipe's target window, and the ingredient checklist
+const CookPanel = ({ recipe, name, cook, controls }: { recipe: Recipe, name: string, cook: CookState, controls: boolean }) => {
+  const { t, tr, dir } = useI18n();
+  const { min, max } = recipe.doneness;
+  return (
+    <div dir={dir} className="absolute top-2 right-2 z-50 w-64 bg-black/80 border-4 border-black pixel-shadow-sm p-2 flex flex-col gap-2 font-pixel text-[10px] text-orange-300">
+      <p className="text-yellow-300">{name}</p>
+      <div className="relative h-4 bg-zinc-800 border-2 border-white">
+        <div className="absolute inset-y-0 bg-green-700/70" style={{ left: `${min / BURNT_AT * 100}%`, width: `${(max - min) / BURNT_AT * 100}%` }} />
+        <div className={`absolute inset-y-0 left-0 ${isBurning(cook, recipe) ? 'bg-zinc-500' : 'bg-red-500'}`} style={{ width: `${cook.meter / BURNT_AT * 100}%` }} />
+      </div>
+      <div className="flex items-center justify-between">
+        <span>{t('cook.heat', { heat: tr(`cook.heat.${cook.heat}`, String(cook.heat)) })}</span>
+        {controls && (
+          <span className="flex gap-1">
+            <HeatButton delta={-1} label="-" />
+            <HeatButton delta={1} label="+" />
+          </span>
+        )}
+      </div>
+      <ol className="flex flex-wrap gap-x-3 gap-y-1">
+        {recipe.ingredients.map((kind, i) => (
+          <li key={i} className={i < cook.added.length ? 'text-green-400 line-through' : ''}>
+            {recipe.ordered ? `${i + 1}. ` : ''}{tr(`item.${kind}`, kind.toUpperCase())}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+// --- RUNNER ---
+
+export type ReplayControl = {
+  recording: LevelRecording;
+  speed: number;
+  // Step to fast-forward to when the runner mounts
+  skipTo: number;
+  onStep: (step: number) => void;
+};
+
+type LevelRunnerProps = {
+  level: LevelDefinition;
+  // Riddle answers are counted on the server against the run; a replay has none and asks nothing
+  runId?: string;
+  onComplete: (stats: LevelStats) => void;
+  onRestart: (stats: LevelStats) => void;
+  // Told whenever the level's wrong answers or stir strokes change, for an event host's dashboard
+  onStats?: (stats: LevelStats) => void;
+  // Filled in as the level is played, for exporting a replay
+  recording?: LevelRecording;
+  // Plays a recording back through the same rules instead of reading the input devices
+  replay?: ReplayControl;
+  // Stops the clock entirely, e.g. while an event host has paused everyone
+  held?: boolean;
+  key?: React.Key;
+};
+
+const SOUNDS: Record<GameSound, (pitch: number) => void> = {
+  pickup: playPickup,
+  whoosh: playWhoosh,
+  door: playDoor,
+  bubble: playBubble,
+  buzz: playBuzz,
+  hurt: playHurt,
+  drop: playDrop,
+  splash: playSplash,
+};
+
+// The rules live in game/engine.ts; this drives them from the frame loop and the input devices, and draws
+// the result. The game state is advanced inside the fixed step, so it lives in a ref and is mirrored into
+// React state for drawing; reading React state there would lag a frame behind.
+export const LevelRunner = ({ level, runId, onComplete, onRestart, onStats, recording, replay, held }: LevelRunnerProps) => {
+  const [initial] = useState(() => createGame(level));
+  const game = useRef(initial);
+  const [view, setView] = useState(initial);
+  const [players, setPlayers] = useState(() => interpolate(initial.prev, initial.bodies, 1));
+  const readInput = useInput(initial.bodies.length);
+  const replayCursor = useRef(0);
+  const coarsePointer = useCoarsePointer();
+  const i18n = useI18n();
+  const text = useMemo(() => localizeLevel(i18n, level), [i18n, level]);
+  const { things, stir, answers, hazards, cook, inside } = view;
+  const coop = isCoop(view);
+  const maxHearts = level.health ?? DEFAULT_HEALTH;
+  const gameOver = isGameOver(view);
+  const { win } = level;
+  const recipe = win.type === 'cook' ? win.recipe : undefined;
+  const openDoor = doorOpen(view);
+  const cauldron = cauldronOf(view);
+  // Asked for the first time the door opens; the run's attempt is the same however often that is.
+  // A replay shows the puzzle it recorded instead of asking the server.
+  const [puzzle, setPuzzle] = useState<PuzzleInfo | null>(() => replay?.recording.puzzle ?? null);
+  const [attempt, setAttempt] = useState<AttemptInfo | null>(null);
+  const [riddleUnreachable, setRiddleUnreachable] = useState(false);
+  const asked = useRef(false);
+
+  useEffect(() => {
+    if (win.type !== 'riddle' || !openDoor || !runId || replay || asked.current) return;
+    asked.current = true;
+    fetchPuzzle(win.puzzle)
+      .then(info => {
+        if (recording) recording.puzzle = info;
+        setPuzzle(info);
+        return startAttempt(info.id, runId);
+      })
+      .then(setAttempt)
+      .catch(() => setRiddleUnreachable(true));
+  }, [openDoor]);
+
+  // The engine only makes new stats when one of them changes
+  useEffect(() => {
+    onStats?.(view.stats);
+  }, [view.stats]);
+
+  // Fast-forwarding a replay to a seek point simulates many steps at once; those stay silent
+  const handle = (event: GameEvent) => {
+    switch (event.type) {
+      case 'sound':
+        if (!replay || game.current.step >= replay.skipTo) SOUNDS[event.sound](event.pitch ?? 0);
+        break;
+      case 'pickup':
+        if (recording) recordEvent(recording, { step: game.current.step, ...event });
+        break;
+      case 'complete':
+        if (recording) recording.outcome = 'complete';
+        onComplete(event.stats);
+        break;
+      case 'restart':
+        if (recording) recording.outcome = 'restart';
+        onRestart(event.stats);
+        break;
+    }
+  };
+
+  const run = ({ game: next, events }: GameResult) => {
+    game.current = next;
+    events.forEach(handle);
+  };
+
+  const tick = (dt: number) => {
+    const step = game.current.step + 1;
+    const inputs = replay ? inputAt(replay.recording, step) : readInput();
+    if (recording) recordInput(recording, step, inputs);
+    if (replay) {
+      replay.onStep(step);
+      const { events } = replay.recording;
+      while (replayCursor.current < events.length && events[replayCursor.current].step <= step) {
+        const event = events[replayCursor.current++];
+        if (event.type !== 'pickup') run(applyAction(game.current, event));
+      }
+    }
+    if (import.meta.env.DEV) {
+      devTools.cheats.splice(0).forEach(cheat => { game.current = applyCheat(game.current, cheat); });
+    }
+    run(stepGame(game.current, inputs, dt));
+  };
+
+  useGameLoop(
+    (dt) => {
+      if (replay) while (game.current.step + 1 < replay.skipTo) tick(dt);
+      tick(dt);
+    },
+    (alpha) => {
+      const next = interpolate(game.current.prev, game.current.bodies, alpha);
+      setPlayers(p => (sameView(p, next) ? p : next));
+      setView(game.current);
+    },
+    // No steps run at all, so a hold leaves no trace in the recording
+    held ? 0 : replay?.speed,
+  );
+
+  // Pointer strokes and riddle answers arrive between steps; they are logged against the next step,
+  // which is where a replay applies them
+  const handleAction = (action: GameAction) => {
+    if (replay) return;
+    if (recording) recordEvent(recording, { step: game.current.step + 1, ...action });
+    run(applyAction(game.current, action));
+    setView(game.current);
+  };
+
+  const restart = () => {
+    if (recording) recording.outcome = 'restart';
+    onRestart(game.current.stats);
+  };
+
+  // Each player's interact key and stirring keys, as shown in the prompts
+  const keysOf = (player: number) => {
+    if (coarsePointer && player === 0) return { use: i18n.t('play.use'), turn: '' };
+    if (!coop) return { use: 'E', turn: '←/→' };
+    return player === 0 ? { use: i18n.t('play.p1.use'), turn: '←/→' } : { use: 'E', turn: i18n.t('play.p2.turn') };
+  };
+  const promptFor = (player: number) => {
+    const keys = keysOf(player);
+    if (canStirAt(view, player)) return coarsePointer && player === 0 ? i18n.t('play.stirTouch') : i18n.t('play.stirKeys', keys);
+    const action = findInteraction(things, positionsOf(view), player);
+    return action && `${keys.use}: ${i18n.tr(`prompt.${action.rule.prompt}`, action.rule.prompt)}`;
+  };
+  // Alone the player vanishes into the riddle door; in co-op only the one who went in does
+  const visible = (player: number) => (coop ? inside !== player : !openDoor);
+  // A pointer drag on the cauldron turns the spoon of whoever is stirring there
+  const stirrer = view.bodies.findIndex((_, i) => canStirAt(view, i));
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full">
+      <div className="text-center mb-8">
+        <h2 className="text-3xl font-pixel text-red-500 drop-shadow-[4px_4px_0_#000]">{text.title}</h2>
+        {text.instructions.map((line, i) => (
+          <p key={i} className={i === 0 ? 'text-2xl font-vt text-orange-300 mt-4' : 'text-xl font-vt text-white'}>{line}</p>
+        ))}
+      </div>
+
+      <ScaledBoard>
+        <div className="relative bg-zinc-950 border-8 border-red-900 pixel-shadow overflow-hidden" style={{ width: GAME_WIDTH, height: GAME_HEIGHT }}>
+          {level.decor.map((d, i) => <DevilDecor key={i} pos={d} flip={d.flip} />)}
+          {hazards.enemies.map((en, i) => <DevilDecor key={`enemy-${i}`} pos={en.pos} flip={en.dir < 0} hostile alert={en.chasing} />)}
+          {level.lava && <Lava />}
+
+          {level.obstacles.map((obs, i) => <Rock key={i} obs={obs} />)}
+
+          {players.map(({ pos, dir }, i) => visible(i) && (
+            <Player key={`player-${i}`} pos={pos} dir={dir} player={i} items={things.inventories[i]} hurt={hazards.invulnerable > 0} />
+          ))}
+          {!gameOver && players.map(({ pos }, i) => {
+            const prompt = visible(i) && promptFor(i);
+            return prompt && (
+              <div
+                key={`prompt-${i}`}
+                className="absolute z-50 -translate-x-1/2 px-2 py-1 bg-black/80 border-2 border-orange-300 font-pixel text-[10px] text-orange-300 whitespace-nowrap pointer-events-none"
+                style={{ left: pos.x + PLAYER_SIZE / 2, top: Math.max(0, pos.y - 64) }}
+              >
+                {prompt}
+              </div>
+            );
+          })}
+          {((level.enemies ?? []).length > 0 || level.lava) && <Hearts hearts={hazards.hearts} max={maxHearts} />}
+
+          {things.entities.map(it => {
+            if (it.state === TAKEN) return null;
+            switch (it.kind) {
+              case 'pot':
+                return <Pot key={it.id} pos={it} />;
+              case 'spoon':
+                return <Spoon key={it.id} pos={it} />;
+              case 'tomato':
+              case 'onion':
+              case 'garlic':
+              case 'basil':
+                return <Ingredient key={it.id} pos={it} kind={it.kind} />;
+              case 'stove':
+                return recipe && win.type === 'cook' && it.id === win.stove
+                  ? <Stove key={it.id} pos={it} hasPot={it.contents.includes(win.item)} isLit={cook.heat > 0} heat={cook.heat} smoking={isBurning(cook, recipe)} />
+                  : <Stove key={it.id} pos={it} hasPot={it.contents.includes('pot')} isLit={it.contents.length > 0} />;
+              case 'door':
+                return <Door key={it.id} pos={it} />;
+              case 'cauldron': {
+                const canStir = it.id === cauldron?.id && stirrer >= 0;
+                return (
+                  <Cauldron
+                    key={it.id}
+                    pos={it}
+                    label={it.label && text.label(it.id, it.label)}
+                    spoons={stir.spoons.map(s => s.angle)}
+                    direction={win.type === 'stir' ? win.direction ?? 'cw' : 'cw'}
+                    splashing={stir.spoons.some(s => s.splash > 0)}
+                    canStir={canStir}
+                    onStir={angle => handleAction({ type: 'stir', player: stirrer, angle })}
+                    onStrokeStart={angle => handleAction({ type: 'stroke', player: stirrer, angle })}
+                  />
+                );
+              }
+            }
+          })}
+
+          {win.type === 'riddle' && openDoor && (
+            <RiddlePopup
+              qrUrl={win.qrUrl}
+              prompt={text.prompt}
+              puzzle={puzzle}
+              attempt={attempt}
+              unreachable={riddleUnreachable}
+              answers={answers}
+              onAnswer={(answer, result) => handleAction({ type: 'answer', answer, result })}
+              readOnly={!!replay}
+              docked={coop}
+            />
+          )}
+
+          {gameOver && (
+            <div className="absolute inset-0 bg-black/80 z-50 flex flex-col items-center justify-center gap-8">
+              <h3 className="text-4xl font-pixel text-red-600 drop-shadow-[4px_4px_0_#000]">{i18n.t('play.gameOver')}</h3>
+              <p className="text-2xl font-vt text-orange-300">{i18n.t('play.gameOverText')}</p>
+              {!replay && (
+                <button
+                  onClick={restart}
+                  className="px-8 py-4 bg-red-600 hover:bg-red-500 text-white font-pixel text-xl border-4 border-black pixel-shadow-sm cursor-pointer"
+                  autoFocus
+                >
+                  {i18n.t('play.tryAgain')}
+                </button>
+              )}
+            </div>
+          )}
+
+          {recipe && <CookPanel recipe={recipe} name={text.recipe} cook={cook} controls={!replay} />}
+
+          {dishFailed(view) && (
+            <div className="absolute inset-0 bg-black/70 z-50 flex items-center justify-center">
+              <p className="text-2xl font-pixel text-red-500 drop-shadow-[4px_4px_0_#000] text-center">{i18n.tr(`cook.${cook.status}`, cook.status)}</p>
+            </div>
+          )}
+
+          {win.type === 'stir' && (
+            <div className="absolute bottom-4 left-1/2 -translate-x-1/2 w-96 h-8 bg-black border-4 border-white pixel-shadow z-50">
+              <div className="h-full bg-red-500 transition-all duration-75" style={{ width: `${Math.min(100, stir.progress / win.target * 100)}%` }} />
+              {stir.spoons.some(s => s.splash > 0) && <p className="absolute -top-8 w-full text-center font-pixel text-xs text-yellow-300">{i18n.t('play.splash')}</p>}
+            </div>
+          )}
+          {import.meta.env.DEV && devTools.overlay && <DebugOverlay game={view} players={players} />}
+        </div>
+      </ScaledBoard>
+
+      {coarsePointer && !replay && <TouchControls />}
+    </div>
+  );
+};
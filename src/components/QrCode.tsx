@@ -0,0 +1,25 @@
+import React, { useMemo } from 'react';
+import { encodeQr } from '../qr/qrcode';
+
+// Light border the spec asks for around the code, in modules
+const QUIET_ZONE = 4;
+
+/** Draws `text` as a QR code in SVG, one unit per module, so it stays crisp at any size. */
+export const QrCode = ({ text, className }: { text: string, className?: string }) => {
+  const code = useMemo(() => encodeQr(text), [text]);
+  const path = useMemo(() => {
+    let d = '';
+    code.modules.forEach((row, y) => row.forEach((dark, x) => {
+      if (dark) d += `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`;
+    }));
+    return d;
+  }, [code]);
+  const side = code.size + QUIET_ZONE * 2;
+
+  return (
+    <svg viewBox={`0 0 ${side} ${side}`} className={className} shapeRendering="crispEdges" role="img" aria-label={text}>
+      <rect width={side} height={side} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useState, useRef } from 'react';
+import { LevelRunner } from './LevelRunner';
+import { parseRunRecording, stepToMs, ReplayFormatError, type RunRecording } from '../game/replay';
+import { LevelValidationError } from '../levels/schema';
+import { formatTime } from '../game/time';
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+const buttonClass = 'px-3 py-2 bg-zinc-900 hover:bg-zinc-800 text-orange-300 font-pixel text-xs border-4 border-black pixel-shadow-sm cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed';
+const activeClass = 'px-3 py-2 bg-red-600 text-white font-pixel text-xs border-4 border-black pixel-shadow-sm cursor-pointer';
+
+const OUTCOME_LABEL = { complete: 'CLEARED', restart: 'RESTARTED' };
+
+const Playback = ({ recording, onExit }: { recording: RunRecording, onExit: () => void }) => {
+  const [index, setIndex] = useState(0);
+  const [step, setStep] = useState(0);
+  // Seeking remounts the runner, which re-simulates from the spawn up to `to`
+  const [seek, setSeek] = useState({ to: 0, nonce: 0 });
+  const [speed, setSpeed] = useState(1);
+  const [playing, setPlaying] = useState(true);
+  const attempt = recording.attempts[index];
+  const last = Math.max(0, attempt.steps - 1);
+  const ended = step >= last;
+
+  const seekTo = (to: number) => {
+    setSeek(s => ({ to, nonce: s.nonce + 1 }));
+    setStep(to);
+  };
+
+  const selectAttempt = (i: number) => {
+    setIndex(i);
+    setSeek(s => ({ to: 0, nonce: s.nonce + 1 }));
+    setStep(0);
+    setPlaying(true);
+  };
+
+  const togglePlay = () => {
+    if (ended) seekTo(0);
+    setPlaying(p => !p || ended);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <LevelRunner
+        key={`${index}-${seek.nonce}`}
+        level={attempt.level}
+        onComplete={() => {}}
+        onRestart={() => {}}
+        replay={{ recording: attempt, speed: playing && !ended ? speed : 0, skipTo: seek.to, onStep: setStep }}
+      />
+
+      <div className="w-full bg-black/80 border-4 border-red-900 pixel-shadow p-4 flex flex-col gap-3 font-pixel text-xs text-orange-300">
+        <div className="flex items-center gap-3">
+          <button onClick={togglePlay} className={activeClass}>{playing && !ended ? 'PAUSE' : 'PLAY'}</button>
+          <input
+            type="range"
+            min={0}
+            max={last}
+            value={Math.min(step, last)}
+            onChange={(e) => seekTo(Number(e.target.value))}
+            className="flex-1 accent-red-600"
+          />
+          <span className="font-vt text-2xl text-white whitespace-nowrap">{formatTime(stepToMs(step))} / {formatTime(stepToMs(last))}</span>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          SPEED
+          {SPEEDS.map(s => (
+            <button key={s} onClick={() => setSpeed(s)} className={s === speed ? activeClass : buttonClass}>{s}x</button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          ATTEMPT
+          {recording.attempts.map((a, i) => (
+            <button key={i} onClick={() => selectAttempt(i)} className={i === index ? activeClass : buttonClass}>
+              {i + 1}. {a.level.title}{a.outcome ? ` ${OUTCOME_LABEL[a.outcome]}` : ''}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => selectAttempt(index + 1)} disabled={index >= recording.attempts.length - 1} className={buttonClass}>NEXT ATTEMPT</button>
+          <button onClick={onExit} className={buttonClass}>EXIT</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/** Loads an exported run and plays it back through the same movement and level rules. */
+export const ReplayViewer = ({ onExit }: { onExit: () => void }) => {
+  const [recording, setRecording] = useState<RunRecording | null>(null);
+  const [error, setError] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const handleLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setRecording(parseRunRecording(JSON.parse(await file.text())));
+      setError('');
+    } catch (err) {
+      if (err instanceof ReplayFormatError) setError(`LOAD FAILED: ${err.message}`);
+      else if (err instanceof LevelValidationError) setError(`LOAD FAILED: ${err.issues.join('; ')}`);
+      else setError(`LOAD FAILED: ${file.name} is not valid JSON`);
+    }
+  };
+
+  if (recording) return <Playback recording={recording} onExit={onExit} />;
+
+  return (
+    <div className="flex flex-col items-center gap-6">
+      <h2 className="text-3xl font-pixel text-red-500 drop-shadow-[4px_4px_0_#000]">REPLAY</h2>
+      <p className="font-vt text-2xl text-orange-300 text-center">Load a replay file saved with SAVE REPLAY during or after a run.</p>
+      {error && <p className="font-pixel text-sm text-red-500">{error}</p>}
+      <div className="flex gap-2">
+        <button onClick={() => fileRef.current?.click()} className={activeClass}>LOAD FILE</button>
+        <button onClick={onExit} className={buttonClass}>BACK</button>
+      </div>
+      <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleLoad} />
+    </div>
+  );
+};
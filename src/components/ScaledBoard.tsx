@@ -0,0 +1,44 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { GAME_WIDTH, GAME_HEIGHT } from '../game/constants';
+
+// The board's border is drawn inside its GAME_WIDTH x GAME_HEIGHT box
+const FRAME_WIDTH = GAME_WIDTH;
+const FRAME_HEIGHT = GAME_HEIGHT;
+// Share of the viewport height the board may take, leaving room for the level header and touch controls
+const MAX_VIEWPORT_HEIGHT = 0.6;
+
+/**
+ * Renders the fixed 800x400 board scaled to fit the available width and height. Game logic keeps
+ * working in board pixels; only the presentation is transformed.
+ */
+export const ScaledBoard = ({ children }: { children: React.ReactNode }) => {
+  const outerRef = useRef<HTMLDivElement>(null);
+  const [scale, setScale] = useState(1);
+
+  useEffect(() => {
+    const measure = () => {
+      const width = outerRef.current?.clientWidth ?? FRAME_WIDTH;
+      const height = window.innerHeight * MAX_VIEWPORT_HEIGHT;
+      setScale(Math.min(width / FRAME_WIDTH, height / FRAME_HEIGHT));
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(outerRef.current!);
+    window.addEventListener('resize', measure);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', measure);
+    };
+  }, []);
+
+  return (
+    // Board coordinates run left to right whatever the language; in RTL the scaled board would slide out of its frame
+    <div ref={outerRef} className="w-full flex justify-center" dir="ltr">
+      <div style={{ width: FRAME_WIDTH * scale, height: FRAME_HEIGHT * scale }}>
+        <div style={{ width: FRAME_WIDTH, height: FRAME_HEIGHT, transform: `scale(${scale})`, transformOrigin: 'top left' }}>
+          {children}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import type { AudioSettings, Settings } from '../game/save';
+import { playPickup } from '../audio/sfx';
+import { useI18n, type MessageKey } from '../i18n';
+import { LanguagePicker } from './LanguagePicker';
+
+const VOLUMES: { key: 'master' | 'music' | 'sfx', label: MessageKey }[] = [
+  { key: 'master', label: 'settings.master' },
+  { key: 'music', label: 'settings.music' },
+  { key: 'sfx', label: 'settings.effects' },
+];
+
+const buttonClass = 'px-6 py-3 bg-zinc-900 hover:bg-zinc-800 text-orange-300 font-pixel text-sm border-4 border-black pixel-shadow-sm cursor-pointer';
+
+export const SettingsPanel = ({ settings, onChange, onBack }: { settings: Settings, onChange: (settings: Settings) => void, onBack: () => void }) => {
+  const { t } = useI18n();
+  const { audio } = settings;
+  const setAudio = (patch: Partial<AudioSettings>) => onChange({ ...settings, audio: { ...audio, ...patch } });
+
+  return (
+    <div className="flex flex-col items-center gap-6">
+      <h2 className="text-3xl font-pixel text-red-500 drop-shadow-[4px_4px_0_#000]">{t('settings.title')}</h2>
+
+      <div className="w-full max-w-md bg-black/80 border-4 border-red-900 pixel-shadow p-6 flex flex-col gap-5 font-pixel text-xs text-orange-300">
+        {VOLUMES.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-4">
+            <span className="w-24">{t(label)}</span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round(audio[key] * 100)}
+              disabled={audio.muted}
+              onChange={(e) => setAudio({ [key]: Number(e.target.value) / 100 })}
+              onPointerUp={key === 'sfx' ? () => playPickup() : undefined}
+              className="flex-1 accent-red-600 disabled:opacity-40"
+            />
+            <span className="w-10 text-end font-vt text-2xl text-white">{Math.round(audio[key] * 100)}</span>
+          </label>
+        ))}
+        <label className="flex items-center gap-3 cursor-pointer">
+          <input type="checkbox" checked={audio.muted} onChange={(e) => setAudio({ muted: e.target.checked })} />
+          {t('settings.mute')}
+        </label>
+        <label className="flex items-center gap-3 cursor-pointer">
+          <input type="checkbox" checked={settings.reducedMotion} onChange={(e) => onChange({ ...settings, reducedMotion: e.target.checked })} />
+          {t('settings.reduceMotion')}
+        </label>
+        <div className="flex flex-col gap-3">
+          {t('settings.language')}
+          <LanguagePicker locale={settings.locale} onChange={locale => onChange({ ...settings, locale })} />
+        </div>
+      </div>
+
+      <button onClick={onBack} className={buttonClass}>{t('settings.back')}</button>
+    </div>
+  );
+};
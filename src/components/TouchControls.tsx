@@ -0,0 +1,102 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { virtualStick } from '../game/input';
+import { useI18n } from '../i18n';
+
+const STICK_RADIUS = 56;
+
+// True on phones and tablets, where there is no keyboard to move with
+export const useCoarsePointer = () => {
+  const [coarse, setCoarse] = useState(() => typeof window !== 'undefined' && window.matchMedia('(pointer: coarse)').matches);
+
+  useEffect(() => {
+    const query = window.matchMedia('(pointer: coarse)');
+    const handleChange = () => setCoarse(query.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  return coarse;
+};
+
+const VirtualJoystick = () => {
+  const baseRef = useRef<HTMLDivElement>(null);
+  const [knob, setKnob] = useState({ x: 0, y: 0 });
+
+  const release = () => {
+    virtualStick.move = { x: 0, y: 0 };
+    setKnob({ x: 0, y: 0 });
+  };
+
+  useEffect(() => release, []);
+
+  const handlePointer = (e: React.PointerEvent) => {
+    if (e.type === 'pointerdown') (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    else if (!(e.target as HTMLElement).hasPointerCapture(e.pointerId)) return;
+
+    const rect = baseRef.current!.getBoundingClientRect();
+    let dx = e.clientX - (rect.left + rect.width / 2);
+    let dy = e.clientY - (rect.top + rect.height / 2);
+    const len = Math.hypot(dx, dy);
+    if (len > STICK_RADIUS) {
+      dx = dx / len * STICK_RADIUS;
+      dy = dy / len * STICK_RADIUS;
+    }
+    virtualStick.move = { x: dx / STICK_RADIUS, y: dy / STICK_RADIUS };
+    setKnob({ x: dx, y: dy });
+  };
+
+  return (
+    <div
+      ref={baseRef}
+      className="relative w-32 h-32 rounded-full bg-black/60 border-4 border-red-900 pixel-shadow-sm"
+      style={{ touchAction: 'none' }}
+      onPointerDown={handlePointer}
+      onPointerMove={handlePointer}
+      onPointerUp={release}
+      onPointerCancel={release}
+    >
+      <div
+        className="absolute w-12 h-12 rounded-full bg-red-600 border-4 border-black pointer-events-none"
+        style={{ left: '50%', top: '50%', transform: `translate(calc(-50% + ${knob.x}px), calc(-50% + ${knob.y}px))` }}
+      />
+    </div>
+  );
+};
+
+const StickButton = ({ action, label, small }: { action: 'interact' | 'drop', label: string, small?: boolean }) => {
+  const [held, setHeld] = useState(false);
+
+  const set = (down: boolean) => {
+    virtualStick[action] = down;
+    setHeld(down);
+  };
+
+  useEffect(() => () => { virtualStick[action] = false; }, []);
+
+  return (
+    <button
+      className={`${small ? 'w-16 h-16' : 'w-24 h-24'} rounded-full border-4 border-black pixel-shadow-sm font-pixel text-xs text-white ${held ? 'bg-orange-500' : 'bg-red-600'}`}
+      style={{ touchAction: 'none' }}
+      onPointerDown={() => set(true)}
+      onPointerUp={() => set(false)}
+      onPointerCancel={() => set(false)}
+      onPointerLeave={() => set(false)}
+    >
+      {label}
+    </button>
+  );
+};
+
+// The stick stays on the left in right-to-left languages too, like a gamepad's
+export const TouchControls = () => {
+  const { t } = useI18n();
+  return (
+    <div dir="ltr" className="w-full flex justify-between items-center mt-6 px-2 select-none">
+      <VirtualJoystick />
+      <div className="flex items-end gap-4">
+        <StickButton action="drop" label={t('play.drop')} small />
+        <StickButton action="interact" label={t('play.use')} />
+      </div>
+    </div>
+  );
+};
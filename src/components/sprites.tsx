@@ -0,0 +1,183 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Heart } from 'lucide-react';
+import type { Obstacle, Vec2 } from '../game/movement';
+import type { IngredientKind, ItemKind } from '../levels/schema';
+import { useI18n } from '../i18n';
+
+// An item's name in the current language
+const ItemName = ({ kind }: { kind: string }) => {
+  const { tr } = useI18n();
+  return <>{tr(`item.${kind}`, kind.toUpperCase())}</>;
+};
+
+// --- DECORATIONS & OBSTACLES ---
+export const Lava = () => (
+  <div className="absolute bottom-0 left-0 w-full h-16 bg-red-600 border-t-4 border-black flex overflow-hidden z-0">
+    {[...Array(20)].map((_, i) => (
+      <motion.div 
+        key={i}
+        animate={{ y: [0, -10, 0] }} 
+        transition={{ repeat: Infinity, duration: 1 + Math.random(), delay: Math.random() }}
+        className="w-16 h-16 bg-orange-500 rounded-full border-4 border-black -mt-8 -ml-4"
+      />
+    ))}
+  </div>
+);
+
+// `hostile` devils are enemies drawn at full strength; `alert` lights their eyes while they chase
+export const DevilDecor = ({ pos, flip, hostile, alert }: { pos: Vec2, flip?: boolean, hostile?: boolean, alert?: boolean, key?: React.Key }) => (
+  <div className={`absolute w-12 h-16 pointer-events-none ${hostile ? 'z-40' : 'z-0 opacity-40'}`} style={{ left: pos.x, top: pos.y, transform: flip ? 'scaleX(-1)' : 'none' }}>
+    <div className={`w-10 h-10 ${hostile ? 'bg-red-700' : 'bg-red-900'} border-4 border-black absolute bottom-0 left-1 flex justify-center items-center`}>
+      <div className="flex gap-1 mb-2">
+        <div className={`w-2 h-2 ${alert ? 'bg-yellow-300' : 'bg-black'}`} />
+        <div className={`w-2 h-2 ${alert ? 'bg-yellow-300' : 'bg-black'}`} />
+      </div>
+    </div>
+    <div className="absolute top-2 left-1 w-2 h-4 bg-black" />
+    <div className="absolute top-2 right-1 w-2 h-4 bg-black" />
+    <div className="absolute -right-4 top-0 w-1 h-16 bg-black">
+      <div className="absolute -top-2 -left-2 w-5 h-4 border-4 border-black border-t-0 rounded-b-full" />
+      <div className="absolute -top-4 left-0 w-1 h-4 bg-black" />
+    </div>
+  </div>
+);
+
+export const Rock = ({ obs, key }: { obs: Obstacle, key?: React.Key }) => (
+  <div 
+    className="absolute bg-zinc-800 border-4 border-black pixel-shadow z-10 flex items-center justify-center overflow-hidden" 
+    style={{ left: obs.x, top: obs.y, width: obs.w, height: obs.h }}
+  >
+    <div className="w-full h-full opacity-30" style={{ backgroundImage: 'radial-gradient(#000 2px, transparent 2px)', backgroundSize: '12px 12px' }} />
+  </div>
+);
+
+// --- ACTORS & PROPS ---
+// Pixel colours for ingredients, in the sprite and as chips above the player's head
+const INGREDIENT_COLOR: Record<IngredientKind, string> = {
+  tomato: 'bg-red-500',
+  onion: 'bg-amber-200',
+  garlic: 'bg-stone-100',
+  basil: 'bg-green-600',
+};
+
+const ITEM_CHIP: Record<ItemKind, string> = {
+  pot: 'bg-zinc-800',
+  spoon: 'bg-amber-700',
+  ...INGREDIENT_COLOR,
+};
+
+// Player one is red, player two purple
+const PLAYER_COLORS = [
+  { body: 'bg-red-600', horns: 'bg-red-900' },
+  { body: 'bg-violet-600', horns: 'bg-violet-900' },
+];
+
+// `items` is the inventory, oldest first: the last one is drawn in hand, the rest as chips
+export const Player = ({ pos, dir, player = 0, items = [], hurt }: { pos: Vec2, dir: number, player?: number, items?: ItemKind[], hurt?: boolean, key?: React.Key }) => {
+  const item = items[items.length - 1];
+  const colors = PLAYER_COLORS[player] ?? PLAYER_COLORS[0];
+  return (
+    <div 
+      className={`absolute w-16 h-16 z-50 ${hurt ? 'animate-pulse opacity-60' : ''}`}
+      style={{ left: pos.x, top: pos.y, transform: `scaleX(${dir})` }}
+    >
+      {/* Demon Body */}
+      <div className={`w-12 h-12 ${colors.body} border-4 border-black pixel-shadow-sm absolute bottom-0 left-2 flex justify-center items-center`}>
+        <div className="flex gap-2 mb-2">
+          <div className="w-2 h-2 bg-yellow-400 border border-black" />
+          <div className="w-2 h-2 bg-yellow-400 border border-black" />
+        </div>
+        <div className="absolute bottom-2 w-4 h-1 bg-black" />
+      </div>
+      {/* Horns */}
+      <div className={`absolute top-0 left-2 w-3 h-4 ${colors.horns} border-2 border-black`} />
+      <div className={`absolute top-0 right-2 w-3 h-4 ${colors.horns} border-2 border-black`} />
+    
+      {/* Held Item */}
+      {item === 'pot' && (
+        <div className="absolute -top-8 left-0 w-16 h-10 bg-zinc-800 border-4 border-black pixel-shadow-sm z-50 flex flex-col justify-between">
+          <div className="w-full h-2 bg-zinc-900 border-b-4 border-black" />
+        </div>
+      )}
+      {item === 'spoon' && (
+        <div className="absolute -top-10 left-8 w-2 h-16 bg-amber-700 border-2 border-black rotate-45 z-50">
+          <div className="absolute -top-4 -left-2 w-6 h-6 bg-amber-600 border-2 border-black rounded-full" />
+        </div>
+      )}
+      {item && item in INGREDIENT_COLOR && (
+        <div className={`absolute -top-8 left-4 w-8 h-8 border-4 border-black pixel-shadow-sm z-50 ${INGREDIENT_COLOR[item as IngredientKind]}`} />
+      )}
+      {items.length > 1 && (
+        <div className="absolute -top-14 left-0 w-16 flex justify-center gap-1 z-50">
+          {items.slice(0, -1).map((it, i) => <div key={i} className={`w-3 h-3 border-2 border-black ${ITEM_CHIP[it]}`} />)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const Pot = ({ pos }: { pos: Vec2, key?: React.Key }) => (
+  <div className="absolute w-16 h-10 bg-zinc-800 border-4 border-black pixel-shadow-sm z-20" style={{ left: pos.x, top: pos.y }}>
+    <div className="w-full h-2 bg-zinc-900 border-b-4 border-black" />
+    <div className="w-full text-center text-[8px] font-pixel text-zinc-400 mt-1"><ItemName kind="pot" /></div>
+  </div>
+);
+
+// `heat` (1-3) sets how many flames show; without it a lit stove burns at full blast
+export const Stove = ({ pos, hasPot, isLit, heat = 3, smoking }: { pos: Vec2, hasPot: boolean, isLit: boolean, heat?: number, smoking?: boolean, key?: React.Key }) => (
+  <div className="absolute w-32 h-24 bg-zinc-900 border-4 border-black pixel-shadow z-10" style={{ left: pos.x, top: pos.y }}>
+    <div className="w-full h-6 bg-zinc-800 border-b-4 border-black flex justify-around items-center">
+      <div className={`w-16 h-2 border-2 border-black rounded-full ${isLit ? 'bg-red-500 animate-pulse' : 'bg-zinc-700'}`} />
+    </div>
+    <div className="absolute -bottom-8 w-full text-center text-xl font-pixel text-red-500"><ItemName kind="stove" /></div>
+    {hasPot && <Pot pos={{ x: 8, y: -20 }} />}
+    {isLit && (
+      <div className="absolute -top-12 left-8 flex gap-1">
+        {heat >= 2 && <motion.div animate={{ y: [0, -5, 0] }} transition={{ repeat: Infinity, duration: 0.3 }} className="w-4 h-6 bg-orange-500 border-2 border-black" />}
+        <motion.div animate={{ y: [0, -8, 0] }} transition={{ repeat: Infinity, duration: 0.4 }} className="w-6 h-8 bg-yellow-400 border-2 border-black" />
+        {heat >= 3 && <motion.div animate={{ y: [0, -5, 0] }} transition={{ repeat: Infinity, duration: 0.5 }} className="w-4 h-6 bg-red-500 border-2 border-black" />}
+      </div>
+    )}
+    {smoking && (
+      <div className="absolute -top-28 left-6 flex gap-2 pointer-events-none">
+        {[0, 0.4, 0.8].map(delay => (
+          <motion.div
+            key={delay}
+            animate={{ y: [0, -24], opacity: [0.8, 0] }}
+            transition={{ repeat: Infinity, duration: 1.2, delay }}
+            className="w-6 h-6 bg-zinc-500 border-2 border-black rounded-full"
+          />
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export const Door = ({ pos }: { pos: Vec2, key?: React.Key }) => (
+  <div className="absolute w-24 h-32 bg-amber-900 border-4 border-black pixel-shadow z-10 flex justify-end items-center pr-2" style={{ left: pos.x, top: pos.y }}>
+    <div className="w-4 h-4 rounded-full bg-yellow-500 border-2 border-black" />
+    <div className="absolute -top-8 w-full text-center text-xl font-pixel text-red-500"><ItemName kind="door" /></div>
+  </div>
+);
+
+export const Spoon = ({ pos }: { pos: Vec2, key?: React.Key }) => (
+  <div className="absolute w-12 h-4 bg-amber-700 border-2 border-black z-10 flex items-center" style={{ left: pos.x, top: pos.y }}>
+    <div className="w-6 h-6 bg-amber-600 border-2 border-black rounded-full -ml-2" />
+    <div className="absolute -bottom-6 w-full text-center text-sm font-pixel text-amber-500"><ItemName kind="spoon" /></div>
+  </div>
+);
+
+export const Ingredient = ({ pos, kind }: { pos: Vec2, kind: IngredientKind, key?: React.Key }) => (
+  <div className={`absolute w-8 h-8 border-4 border-black pixel-shadow-sm z-20 ${INGREDIENT_COLOR[kind]}`} style={{ left: pos.x, top: pos.y }}>
+    <div className="absolute -bottom-6 left-1/2 -translate-x-1/2 text-[8px] font-pixel text-orange-300 whitespace-nowrap"><ItemName kind={kind} /></div>
+  </div>
+);
+
+export const Hearts = ({ hearts, max }: { hearts: number, max: number }) => (
+  <div className="absolute top-2 left-2 z-50 flex gap-1">
+    {[...Array(max)].map((_, i) => (
+      <Heart key={i} size={24} strokeWidth={3} className={i < hearts ? 'text-black fill-red-500' : 'text-black fill-zinc-800'} />
+    ))}
+  </div>
+);
@@ -0,0 +1,6 @@
+export const GAME_WIDTH = 800;
+export const GAME_HEIGHT = 400;
+export const PLAYER_SIZE = 64;
+export const GRID_SIZE = 64;
+// Top edge of the lava strip: the bottom 64px of the 384px-high play area inside the board's 8px border
+export const LAVA_TOP = 320;
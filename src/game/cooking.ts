@@ -0,0 +1,77 @@
+import type { IngredientKind, InteractionRule, ItemKind, LevelDefinition, Recipe } from '../levels/schema';
+
+// Cook meter points per second at each heat setting: off, low, medium, high
+const HEAT_RATE = [0, 5, 10, 20];
+export const MAX_HEAT = HEAT_RATE.length - 1;
+// The meter tops out here; a dish left until then is charcoal
+export const BURNT_AT = 100;
+
+// Stove states once a recipe is on it: pot placed, every ingredient in, taken off the heat
+export const STOVE_COOKING = 'lit';
+export const STOVE_READY = 'ready';
+export const STOVE_SERVED = 'served';
+
+export type CookStatus = 'cooking' | 'done' | 'burnt' | 'ruined' | 'raw';
+
+export type CookState = {
+  heat: number;
+  // 0..BURNT_AT; only moves while the pot is on a lit burner
+  meter: number;
+  added: IngredientKind[];
+  status: CookStatus;
+};
+
+export const createCook = (): CookState => ({ heat: 0, meter: 0, added: [], status: 'cooking' });
+
+export const setHeat = (cook: CookState, heat: number): CookState =>
+  cook.status === 'cooking' ? { ...cook, heat: Math.max(0, Math.min(MAX_HEAT, heat)) } : cook;
+
+export const stepCook = (cook: CookState, dt: number): CookState => {
+  if (cook.status !== 'cooking') return cook;
+  const meter = Math.min(BURNT_AT, cook.meter + HEAT_RATE[cook.heat] * dt);
+  return { ...cook, meter, status: meter >= BURNT_AT ? 'burnt' : 'cooking' };
+};
+
+// Past the window the pot smokes as a warning before it burns
+export const isBurning = (cook: CookState, recipe: Recipe) => cook.meter > recipe.doneness.max;
+
+// A wrong ingredient ruins the dish straight away, so a full pot is a correct one
+export const hasEverything = (cook: CookState, recipe: Recipe) => cook.added.length >= recipe.ingredients.length;
+
+const count = (list: IngredientKind[], kind: IngredientKind) => list.filter(k => k === kind).length;
+
+/** Adds an ingredient; in an ordered recipe anything but the next one ruins the dish, otherwise only extras do. */
+export const addIngredient = (cook: CookState, recipe: Recipe, kind: IngredientKind): CookState => {
+  if (cook.status !== 'cooking') return cook;
+  const added = [...cook.added, kind];
+  const wrong = recipe.ordered
+    ? kind !== recipe.ingredients[cook.added.length]
+    : count(added, kind) > count(recipe.ingredients, kind);
+  return { ...cook, added, status: wrong ? 'ruined' : 'cooking' };
+};
+
+export const serve = (cook: CookState, recipe: Recipe): CookState => {
+  if (cook.status !== 'cooking') return cook;
+  if (cook.meter < recipe.doneness.min) return { ...cook, status: 'raw' };
+  if (cook.meter > recipe.doneness.max) return { ...cook, status: 'burnt' };
+  return { ...cook, status: 'done' };
+};
+
+/** The stove's rules while it cooks `recipe`: take the pot, then each ingredient, then serve. */
+export const recipeInteractions = (recipe: Recipe, item: ItemKind): InteractionRule[] => [
+  { prompt: `place ${item} on stove`, from: ['idle'], takes: item, to: STOVE_COOKING },
+  ...[...new Set(recipe.ingredients)].map(kind => ({ prompt: `add ${kind}`, from: [STOVE_COOKING], takes: kind })),
+  { prompt: 'serve the dish', from: [STOVE_READY], to: STOVE_SERVED },
+];
+
+// Gives the recipe's stove its cooking rules, unless the level spelled out its own
+export const prepareKitchen = (level: LevelDefinition): LevelDefinition => {
+  const { win } = level;
+  if (win.type !== 'cook' || !win.recipe) return level;
+  const recipe = win.recipe;
+  return {
+    ...level,
+    interactables: level.interactables.map(it =>
+      it.id === win.stove && !it.interactions ? { ...it, interactions: recipeInteractions(recipe, win.item) } : it),
+  };
+};
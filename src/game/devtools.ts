@@ -0,0 +1,106 @@
+import { GAME_WIDTH, GAME_HEIGHT, PLAYER_SIZE } from './constants';
+import type { Vec2 } from './movement';
+import type { GameState } from './engine';
+import { ITEM_KINDS, isItemKind, type ItemKind } from '../levels/schema';
+
+// Developer tools for tuning levels. Everything that reaches for these is behind `import.meta.env.DEV`,
+// so production builds drop them.
+
+// --- CHEATS ---
+// Players are numbered from 0 here, like everywhere else in the game
+export type Cheat =
+  | { type: 'teleport', player: number, pos: Vec2 }
+  | { type: 'give', player: number, item: ItemKind }
+  | { type: 'stir', progress: number }
+  | { type: 'noclip' };
+
+/** Applies a cheat between steps. Recordings don't log cheats, so a cheated attempt won't replay faithfully. */
+export const applyCheat = (game: GameState, cheat: Cheat): GameState => {
+  switch (cheat.type) {
+    case 'teleport': {
+      if (!game.bodies[cheat.player]) return game;
+      const pos = {
+        x: Math.max(0, Math.min(cheat.pos.x, GAME_WIDTH - PLAYER_SIZE)),
+        y: Math.max(0, Math.min(cheat.pos.y, GAME_HEIGHT - PLAYER_SIZE)),
+      };
+      return {
+        ...game,
+        bodies: game.bodies.map((b, i) => (i === cheat.player ? { ...b, pos, vel: { x: 0, y: 0 } } : b)),
+        prev: game.prev.map((p, i) => (i === cheat.player ? { ...pos } : p)),
+      };
+    }
+    case 'give': {
+      // Past the carry limit on purpose, to try out combinations the level wouldn't allow
+      const { inventories } = game.things;
+      if (!inventories[cheat.player]) return game;
+      return { ...game, things: { ...game.things, inventories: inventories.map((inv, i) => (i === cheat.player ? [...inv, cheat.item] : inv)) } };
+    }
+    case 'stir':
+      return { ...game, stir: { ...game.stir, progress: cheat.progress } };
+    case 'noclip':
+      return { ...game, noclip: !game.noclip };
+  }
+};
+
+// --- BRIDGE ---
+// Written by the dev console, read by the runner each step and frame, like the touch controls' virtualStick
+export const devTools = {
+  overlay: false,
+  // Applied and emptied at the start of the runner's next step
+  cheats: [] as Cheat[],
+};
+
+// --- COMMANDS ---
+export type DevCommand = Cheat | { type: 'level', level: number } | { type: 'overlay' } | { type: 'help' };
+
+export const DEV_HELP = [
+  'level <n>            jump to level n (0 is the title screen)',
+  'tp <x> <y> [player]  teleport player 1 or 2 to a board position',
+  `give <item> [player] ${ITEM_KINDS.join(' / ')}`,
+  'stir <progress>      set the cauldron\'s stir progress',
+  'noclip               walk through rocks and players',
+  'overlay              hitboxes, radii, coordinates and FPS (also F3)',
+];
+
+const parseNumber = (word: string | undefined) => (word !== undefined && word.trim() !== '' && Number.isFinite(Number(word)) ? Number(word) : null);
+
+// Typed as 1 or 2, like the players are called on screen
+const parsePlayer = (word: string | undefined): number | string => {
+  if (word === undefined) return 0;
+  return word === '1' || word === '2' ? Number(word) - 1 : 'player must be 1 or 2';
+};
+
+/** Reads one console line; the error message is returned as a string. */
+export const parseCommand = (line: string): DevCommand | string => {
+  const [name, ...args] = line.trim().toLowerCase().split(/\s+/);
+  switch (name) {
+    case 'help':
+      return { type: 'help' };
+    case 'level': {
+      const level = parseNumber(args[0]);
+      return level !== null && Number.isInteger(level) && level >= 0 ? { type: 'level', level } : 'usage: level <n>';
+    }
+    case 'tp': {
+      const x = parseNumber(args[0]);
+      const y = parseNumber(args[1]);
+      if (x === null || y === null) return 'usage: tp <x> <y> [player]';
+      const player = parsePlayer(args[2]);
+      return typeof player === 'string' ? player : { type: 'teleport', player, pos: { x, y } };
+    }
+    case 'give': {
+      if (!args[0] || !isItemKind(args[0])) return `usage: give <${ITEM_KINDS.join('|')}> [player]`;
+      const player = parsePlayer(args[1]);
+      return typeof player === 'string' ? player : { type: 'give', player, item: args[0] };
+    }
+    case 'stir': {
+      const progress = parseNumber(args[0]);
+      return progress !== null && progress >= 0 ? { type: 'stir', progress } : 'usage: stir <progress>';
+    }
+    case 'noclip':
+      return { type: 'noclip' };
+    case 'overlay':
+      return { type: 'overlay' };
+    default:
+      return `unknown command "${name}", try help`;
+  }
+};
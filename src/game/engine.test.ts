@@ -0,0 +1,272 @@
+import { describe, it, expect } from 'vitest';
+import { createGame, stepGame, applyAction, positionsOf, isGameOver, type GameState, type GameEvent, type GameAction } from './engine';
+import { checkDist, type Vec2 } from './movement';
+import { findEntity } from './interactions';
+import { findPath } from './grid';
+import type { InputFrame } from './input';
+import type { AnswerResponse } from '../api/puzzles';
+import { LEVELS, COOP_LEVELS } from '../levels/manifest';
+import { buildReachGrid } from '../levels/solvability';
+import { interactionRadius, type LevelDefinition } from '../levels/schema';
+
+// --- DRIVER ---
+// Plays a level headlessly the way a player would: walk over, press a key, wait
+
+type Run = { game: GameState, events: GameEvent[] };
+
+const start = (level: LevelDefinition): Run => ({ game: createGame(level), events: [] });
+
+const idle = (): InputFrame => ({ move: { x: 0, y: 0 }, interact: false, drop: false, heat: 0 });
+
+// One step with `player`'s input; everyone else stands still
+const step = (run: Run, player = 0, input: Partial<InputFrame> = {}) => {
+  const inputs = run.game.bodies.map((_, i) => (i === player ? { ...idle(), ...input } : idle()));
+  const { game, events } = stepGame(run.game, inputs);
+  run.game = game;
+  run.events.push(...events);
+};
+
+const wait = (run: Run, steps: number) => {
+  for (let i = 0; i < steps; i++) step(run);
+};
+
+// Waits for the pot to cook to `meter`, failing rather than hanging if it never gets there
+const cookTo = (run: Run, meter: number) => {
+  for (let i = 0; i < 60 * 60 && run.game.cook.meter < meter; i++) step(run);
+  expect(run.game.cook.meter).toBeGreaterThanOrEqual(meter);
+};
+
+const act = (run: Run, action: GameAction) => {
+  const { game, events } = applyAction(run.game, action);
+  run.game = game;
+  run.events.push(...events);
+};
+
+// Paths planned flush against a rock snag on its corners, so the driver keeps a little clearance
+const CLEARANCE = 6;
+const clearOfRocks = (level: LevelDefinition): LevelDefinition => ({
+  ...level,
+  obstacles: level.obstacles.map(o => ({ x: o.x - CLEARANCE, y: o.y - CLEARANCE, w: o.w + CLEARANCE * 2, h: o.h + CLEARANCE * 2 })),
+});
+
+// Steps along the shortest path until the entity is comfortably in reach, or onto a spot on the board
+const walkTo = (run: Run, player: number, to: string | Vec2) => {
+  const entity = typeof to === 'string' ? findEntity(run.game.things, to) : undefined;
+  const target = entity ?? (to as Vec2);
+  const near = entity ? interactionRadius(entity) / 2 : 12;
+  const grid = buildReachGrid(clearOfRocks(run.game.level));
+  for (let n = 0; n < 1200; n++) {
+    const at = run.game.bodies[player].pos;
+    if (checkDist(at, target, near)) return;
+    const path = findPath(grid, at, target);
+    const next: Vec2 = path[Math.min(3, path.length - 1)] ?? target;
+    const d = { x: next.x - at.x, y: next.y - at.y };
+    const len = Math.hypot(d.x, d.y) || 1;
+    step(run, player, { move: { x: d.x / len, y: d.y / len } });
+  }
+  throw new Error(`player ${player + 1} never reached ${JSON.stringify(to)}`);
+};
+
+// A press is a step with the button down then one with it up
+const press = (run: Run, player = 0, button: 'interact' | 'drop' = 'interact') => {
+  step(run, player, { [button]: true });
+  step(run, player);
+};
+
+const turnHeat = (run: Run, delta: number) => {
+  step(run, 0, { heat: delta });
+  step(run);
+};
+
+// Holds interact at the cauldron and turns the spoon clockwise
+const stir = (run: Run, players: number[], steps: number) => {
+  for (let i = 0; i < steps && !run.game.ending; i++) {
+    const inputs = run.game.bodies.map((_, p) => (players.includes(p) ? { ...idle(), interact: true, move: { x: 1, y: 0 } } : idle()));
+    const { game, events } = stepGame(run.game, inputs);
+    run.game = game;
+    run.events.push(...events);
+  }
+};
+
+const answer = (correct: number, total: number, attemptsLeft: number): AnswerResponse =>
+  ({ solved: correct === total, correct, total, matched: [], attemptsLeft, hints: [] });
+
+const outcomes = (run: Run) => run.events.filter(e => e.type === 'complete' || e.type === 'restart').map(e => e.type);
+
+// Long enough for any ending delay to run out, and for a second announcement to show up if there were one
+const settle = (run: Run) => wait(run, 300);
+
+const byId = (levels: LevelDefinition[], id: string) => levels.find(l => l.id === id)!;
+
+// --- LEVEL 1: COOKING ---
+// In reach of the stove but out of sight of the devil patrolling above it
+const STOVE_SIDE: Vec2 = { x: 480, y: 180 };
+
+const fillPot = (run: Run, first: string, second: string) => {
+  walkTo(run, 0, first);
+  press(run);
+  walkTo(run, 0, STOVE_SIDE);
+  press(run);
+  walkTo(run, 0, second);
+  press(run);
+  walkTo(run, 0, STOVE_SIDE);
+  press(run);
+};
+
+const cookSolo = (run: Run) => {
+  walkTo(run, 0, 'pot');
+  press(run);
+  walkTo(run, 0, STOVE_SIDE);
+  press(run);
+  turnHeat(run, 1);
+  turnHeat(run, 1);
+};
+
+describe('level 1', () => {
+  const level = byId(LEVELS, 'level1');
+
+  it('is won by cooking the soup in order and serving it in the doneness window', () => {
+    const run = start(level);
+    cookSolo(run);
+    fillPot(run, 'tomato', 'onion');
+    cookTo(run, 70);
+    press(run);
+    settle(run);
+    expect(run.game.cook.status).toBe('done');
+    expect(outcomes(run)).toEqual(['complete']);
+  });
+
+  it('restarts when an ingredient goes in out of order', () => {
+    const run = start(level);
+    cookSolo(run);
+    walkTo(run, 0, 'onion');
+    press(run);
+    walkTo(run, 0, STOVE_SIDE);
+    press(run);
+    settle(run);
+    expect(run.game.cook.status).toBe('ruined');
+    expect(outcomes(run)).toEqual(['restart']);
+  });
+
+  it('restarts when the soup is left on the heat until it burns', () => {
+    const run = start(level);
+    cookSolo(run);
+    fillPot(run, 'tomato', 'onion');
+    turnHeat(run, 1);
+    wait(run, 60 * 10);
+    settle(run);
+    expect(run.game.cook.status).toBe('burnt');
+    expect(outcomes(run)).toEqual(['restart']);
+  });
+
+  it('is over once the lava has taken every heart', () => {
+    const run = start(level);
+    for (let i = 0; i < 60 * 10 && !isGameOver(run.game); i++) step(run, 0, { move: { x: 0, y: 1 } });
+    expect(isGameOver(run.game)).toBe(true);
+    // Nothing moves until the player chooses to try again
+    const frozen = positionsOf(run.game);
+    for (let i = 0; i < 60; i++) step(run, 0, { move: { x: 1, y: 0 } });
+    expect(positionsOf(run.game)).toEqual(frozen);
+    expect(outcomes(run)).toEqual([]);
+  });
+});
+
+describe('level 1 co-op', () => {
+  it('is won with one player holding the pot by the stove while the other lights it', () => {
+    const run = start(byId(COOP_LEVELS, 'level1-coop'));
+    // Player 1 starts in front of player 2, so fetches the tomato first to clear the way
+    walkTo(run, 0, 'tomato');
+    press(run, 0);
+    walkTo(run, 1, 'pot');
+    press(run, 1);
+    walkTo(run, 1, { x: STOVE_SIDE.x + 80, y: STOVE_SIDE.y });
+    walkTo(run, 0, STOVE_SIDE);
+    press(run, 0);
+    expect(findEntity(run.game.things, 'stove')?.state).toBe('lit');
+    turnHeat(run, 1);
+    turnHeat(run, 1);
+    press(run, 0);
+    walkTo(run, 0, 'onion');
+    press(run, 0);
+    walkTo(run, 0, STOVE_SIDE);
+    press(run, 0);
+    cookTo(run, 70);
+    press(run, 0);
+    settle(run);
+    expect(run.game.cook.status).toBe('done');
+    expect(outcomes(run)).toEqual(['complete']);
+  });
+});
+
+// --- LEVEL 2: RIDDLE DOOR ---
+describe('level 2', () => {
+  const level = byId(LEVELS, 'level2');
+
+  it('is won by naming every ingredient at the door', () => {
+    const run = start(level);
+    walkTo(run, 0, 'door');
+    press(run);
+    act(run, { type: 'answer', answer: 'tomato', result: answer(1, 4, 4) });
+    act(run, { type: 'answer', answer: 'tomato onion garlic basil', result: answer(4, 4, 4) });
+    settle(run);
+    expect(run.game.stats.wrongAnswers).toBe(1);
+    expect(outcomes(run)).toEqual(['complete']);
+  });
+
+  it('restarts when the door seals after the last wrong answer', () => {
+    const run = start(level);
+    walkTo(run, 0, 'door');
+    press(run);
+    for (let left = 4; left >= 0; left--) act(run, { type: 'answer', answer: 'nothing', result: answer(0, 4, left) });
+    settle(run);
+    expect(run.game.stats.wrongAnswers).toBe(5);
+    expect(outcomes(run)).toEqual(['restart']);
+  });
+});
+
+describe('level 2 co-op', () => {
+  it('is won while one player answers inside and the other guards the door', () => {
+    const run = start(byId(COOP_LEVELS, 'level2-coop'));
+    // Right of the door, where neither devil looks
+    walkTo(run, 0, { x: 700, y: 100 });
+    walkTo(run, 1, { x: 600, y: 30 });
+    press(run, 0);
+    expect(run.game.inside).toBe(0);
+    act(run, { type: 'answer', answer: 'all of them', result: answer(4, 4, 5) });
+    settle(run);
+    expect(outcomes(run)).toEqual(['complete']);
+  });
+});
+
+// --- LEVEL 3: STIRRING ---
+// In reach of the cauldron, below where the devil can see
+const BELOW_CAULDRON: Vec2 = { x: 580, y: 240 };
+
+describe('level 3', () => {
+  it('is won by stirring the cauldron full with the spoon', () => {
+    const run = start(byId(LEVELS, 'level3'));
+    walkTo(run, 0, 'spoon');
+    press(run);
+    walkTo(run, 0, BELOW_CAULDRON);
+    stir(run, [0], 60 * 30);
+    settle(run);
+    expect(run.game.stats.stirStrokes).toBe(1);
+    expect(outcomes(run)).toEqual(['complete']);
+  });
+});
+
+describe('level 3 co-op', () => {
+  it('is won with both players stirring their own spoons', () => {
+    const run = start(byId(COOP_LEVELS, 'level3-coop'));
+    walkTo(run, 0, 'spoon');
+    press(run, 0);
+    walkTo(run, 0, BELOW_CAULDRON);
+    walkTo(run, 1, 'spoon-2');
+    press(run, 1);
+    walkTo(run, 1, { x: 440, y: 190 });
+    stir(run, [0, 1], 60 * 30);
+    settle(run);
+    expect(run.game.stats.stirStrokes).toBe(2);
+    expect(outcomes(run)).toEqual(['complete']);
+  });
+});
@@ -0,0 +1,331 @@
+import { STEP, stepBody, stepBodies, checkDist, type Body, type Vec2 } from './movement';
+import type { InputFrame } from './input';
+import type { Grid } from './grid';
+import type { AnswerResponse } from '../api/puzzles';
+import { interactionRadius, isIngredientKind, spawnsOf, type LevelDefinition } from '../levels/schema';
+import { emptyStats, type LevelStats } from './score';
+import { createHazards, stepHazards, buildEnemyGrid, DEFAULT_HEALTH, LAVA_ZONE, type HazardState } from './hazards';
+import {
+  createInteractionWorld,
+  findInteraction,
+  interact,
+  dropItem,
+  findEntity,
+  holding,
+  setEntityState,
+  type Interaction,
+  type InteractionWorld,
+} from './interactions';
+import {
+  createCook,
+  stepCook,
+  setHeat,
+  addIngredient,
+  hasEverything,
+  serve,
+  prepareKitchen,
+  STOVE_COOKING,
+  STOVE_READY,
+  STOVE_SERVED,
+  type CookState,
+} from './cooking';
+import { createStir, startStroke, moveSpoon, turnSpoon, stepStir, KEY_TURN_SPEED, type StirState } from './stirring';
+
+// --- STATE ---
+export type AnswerAttempt = { answer: string, result: AnswerResponse };
+
+export type Outcome = 'complete' | 'restart';
+
+/**
+ * Everything about one attempt at a level. It only changes through stepGame and applyAction, which
+ * return a new state, so the same inputs always play out the same way with or without a screen.
+ */
+export type GameState = {
+  level: LevelDefinition;
+  enemyGrid: Grid;
+  // Index of the last fixed step run; -1 before the first
+  step: number;
+  bodies: Body[];
+  // Where each player stood before the last step, for drawing in between
+  prev: Vec2[];
+  things: InteractionWorld;
+  stir: StirState;
+  // Every submitted answer, so a replay can show them
+  answers: AnswerAttempt[];
+  hazards: HazardState;
+  cook: CookState;
+  // Co-op riddle: the player who went in to answer while the other guards the door
+  inside: number | null;
+  // Last step's buttons per player, so a press only acts once however long it is held
+  lastInputs: (InputFrame | null)[];
+  // Whether each player was stirring with the keys last step, to count strokes
+  stirring: boolean[];
+  stats: LevelStats;
+  // Players walk through rocks and each other; only the dev console turns this on
+  noclip: boolean;
+  // Once the level is won or lost it plays out until step `at`, when the outcome is announced, once
+  ending: { outcome: Outcome, at: number, announced: boolean } | null;
+};
+
+// Things the runner reacts to but the rules don't depend on
+export type GameSound = 'pickup' | 'whoosh' | 'door' | 'bubble' | 'buzz' | 'hurt' | 'drop' | 'splash';
+
+export type GameEvent =
+  // `pitch` rises from 0 to 1 as the cauldron fills
+  | { type: 'sound', sound: GameSound, pitch?: number }
+  | { type: 'pickup', player: number, id: string }
+  | { type: Outcome, stats: LevelStats };
+
+// Input that arrives between steps: pointer drags on the cauldron and the server's verdict on an answer
+export type GameAction =
+  // Angles around the cauldron's centre, turning `player`'s spoon
+  | { type: 'stroke', player: number, angle: number }
+  | { type: 'stir', player: number, angle: number }
+  | { type: 'answer', answer: string, result: AnswerResponse };
+
+export type GameResult = { game: GameState, events: GameEvent[] };
+
+export const createGame = (level: LevelDefinition): GameState => {
+  const spawns = spawnsOf(level);
+  return {
+    level,
+    enemyGrid: buildEnemyGrid(level.obstacles, level.lava),
+    step: -1,
+    bodies: spawns.map(pos => ({ pos: { ...pos }, vel: { x: 0, y: 0 }, dir: 1 })),
+    prev: spawns.map(pos => ({ ...pos })),
+    things: createInteractionWorld(prepareKitchen(level), spawns.length),
+    stir: createStir(spawns.length),
+    answers: [],
+    hazards: createHazards(level.enemies ?? [], level.health ?? DEFAULT_HEALTH),
+    cook: createCook(),
+    inside: null,
+    lastInputs: spawns.map(() => null),
+    stirring: spawns.map(() => false),
+    stats: emptyStats(),
+    noclip: false,
+    ending: null,
+  };
+};
+
+// --- QUERIES ---
+export const positionsOf = (game: GameState) => game.bodies.map(b => b.pos);
+
+export const isCoop = (game: GameState) => game.bodies.length > 1;
+
+export const doorOpen = ({ level: { win }, things }: GameState) => win.type === 'riddle' && findEntity(things, win.door)?.state === 'open';
+
+export const dishFailed = ({ cook }: GameState) => cook.status !== 'cooking' && cook.status !== 'done';
+
+export const isGameOver = (game: GameState) => game.hazards.hearts <= 0;
+
+// Alone, the riddle door stops the clock; in co-op the guard keeps playing while the other answers
+export const isPaused = (game: GameState) => isGameOver(game) || (!isCoop(game) && doorOpen(game)) || dishFailed(game);
+
+export const cauldronOf = ({ level: { win, interactables } }: GameState) =>
+  win.type === 'stir' ? interactables.find(it => it.id === win.cauldron) : undefined;
+
+// Holding the level's tool within reach of its cauldron
+export const canStirAt = (game: GameState, player: number) => {
+  const { win } = game.level;
+  const cauldron = cauldronOf(game);
+  return !!cauldron && win.type === 'stir' && holding(game.things, win.tool, player)
+    && checkDist(game.bodies[player].pos, cauldron, interactionRadius(cauldron));
+};
+
+// --- RULES ---
+const stepsIn = (delayMs = 0) => Math.round(delayMs / 1000 / STEP);
+
+const replaceAt = <T>(list: T[], index: number, value: T) => list.map((v, i) => (i === index ? value : v));
+
+// The first ending sticks; a dish can't be both served and burnt
+const end = (game: GameState, outcome: Outcome, delayMs?: number): GameState =>
+  game.ending ? game : { ...game, ending: { outcome, at: game.step + stepsIn(delayMs), announced: false } };
+
+const checkWin = (game: GameState): GameState => {
+  const { win } = game.level;
+  if (win.type === 'cook' && !win.recipe && findEntity(game.things, win.stove)?.contents.includes(win.item)) return end(game, 'complete', win.delayMs);
+  if (win.type === 'state' && findEntity(game.things, win.target)?.state === win.state) return end(game, 'complete', win.delayMs);
+  return game;
+};
+
+// The dish is thrown out and the level starts over, like a sealed door
+const failDish = (game: GameState, cook: CookState, events: GameEvent[]) => {
+  events.push({ type: 'sound', sound: 'buzz' });
+  return end({ ...game, cook }, 'restart', 2000);
+};
+
+const runInteraction = (game: GameState, found: Interaction, events: GameEvent[]): GameState => {
+  const { win } = game.level;
+  const recipe = win.type === 'cook' ? win.recipe : undefined;
+  const { entity, rule, player } = found;
+  let g: GameState = { ...game, things: interact(game.things, found) };
+  if (entity.kind === 'stove' && (rule.takes || rule.assist?.holding)) events.push({ type: 'sound', sound: 'whoosh' });
+  else if (entity.kind === 'door') events.push({ type: 'sound', sound: 'door' });
+  else events.push({ type: 'sound', sound: 'pickup' });
+  if (rule.gives) events.push({ type: 'pickup', player, id: entity.id });
+  // In co-op whoever knocks goes in to answer; the other has to hold the door
+  if (isCoop(g) && win.type === 'riddle' && entity.id === win.door && doorOpen(g)) g = { ...g, inside: player };
+  if (recipe && win.type === 'cook' && entity.id === win.stove) {
+    if (rule.takes && isIngredientKind(rule.takes)) {
+      const cook = addIngredient(g.cook, recipe, rule.takes);
+      if (dishFailed({ ...g, cook })) return failDish(g, cook, events);
+      const things = hasEverything(cook, recipe) ? setEntityState(g.things, entity.id, STOVE_READY) : g.things;
+      g = { ...g, cook, things };
+    } else if (rule.to === STOVE_SERVED) {
+      const cook = serve(g.cook, recipe);
+      if (dishFailed({ ...g, cook })) return failDish(g, cook, events);
+      g = end({ ...g, cook }, 'complete', win.delayMs);
+    }
+  }
+  return checkWin(g);
+};
+
+// Interact acts on the nearest thing once per press, or stirs while held at the cauldron; drop puts
+// down or throws the item in hand
+const stepInteract = (game: GameState, player: number, input: InputFrame, dt: number, events: GameEvent[]): GameState => {
+  const { level } = game;
+  const last = game.lastInputs[player];
+  const pressed = (key: 'interact' | 'drop') => input[key] && !last?.[key];
+  const turned = input.heat !== 0 && input.heat !== last?.heat;
+  let g: GameState = { ...game, lastInputs: replaceAt(game.lastInputs, player, input) };
+  if (level.win.type === 'cook' && level.win.recipe && turned) g = { ...g, cook: setHeat(g.cook, g.cook.heat + input.heat) };
+
+  const stirring = input.interact && canStirAt(g, player);
+  if (stirring && !g.stirring[player]) g = { ...g, stats: { ...g.stats, stirStrokes: g.stats.stirStrokes + 1 } };
+  if (stirring && input.move.x !== 0) g = { ...g, stir: turnSpoon(g.stir, player, input.move.x * KEY_TURN_SPEED * dt) };
+  g = { ...g, stirring: replaceAt(g.stirring, player, stirring) };
+
+  if (!stirring && pressed('interact')) {
+    const found = findInteraction(g.things, positionsOf(g), player);
+    if (found) g = runInteraction(g, found, events);
+  }
+  if (pressed('drop') && g.things.inventories[player].length > 0) {
+    const moving = input.move.x !== 0 || input.move.y !== 0;
+    const solids = level.lava ? [...level.obstacles, LAVA_ZONE] : level.obstacles;
+    g = { ...g, things: dropItem(g.things, player, g.bodies[player].pos, moving ? input.move : null, solids) };
+    events.push({ type: 'sound', sound: 'drop' });
+  }
+  return g;
+};
+
+// The pot cooks while it sits on the stove
+const stepKitchen = (game: GameState, dt: number, events: GameEvent[]): GameState => {
+  const { win } = game.level;
+  if (win.type !== 'cook' || !win.recipe || game.ending) return game;
+  const stove = findEntity(game.things, win.stove)?.state;
+  if (stove !== STOVE_COOKING && stove !== STOVE_READY) return game;
+  const cook = stepCook(game.cook, dt);
+  return dishFailed({ ...game, cook }) ? failDish(game, cook, events) : { ...game, cook };
+};
+
+// Pointer drags and key turns move the spoons between steps; each step scores how they moved
+const stepCauldron = (game: GameState, dt: number, events: GameEvent[]): GameState => {
+  const { win } = game.level;
+  if (win.type !== 'stir' || game.ending) return game;
+  const { state, splashed, gained } = stepStir(game.stir, win.direction ?? 'cw', dt);
+  if (splashed) events.push({ type: 'sound', sound: 'splash' });
+  else if (gained) events.push({ type: 'sound', sound: 'bubble', pitch: state.progress / win.target });
+  const g = { ...game, stir: state };
+  return state.progress >= win.target ? end(g, 'complete', win.delayMs) : g;
+};
+
+// Co-op riddle: the door slams shut, sending the typist back out, when nobody is left guarding it
+const slamDoor = (game: GameState, events: GameEvent[]): GameState => {
+  const { win } = game.level;
+  if (win.type !== 'riddle') return game;
+  events.push({ type: 'sound', sound: 'door' });
+  return { ...game, things: setEntityState(game.things, win.door, 'idle'), inside: null };
+};
+
+const stepGuard = (game: GameState, events: GameEvent[]): GameState => {
+  const { win } = game.level;
+  const { inside, things } = game;
+  if (inside === null || win.type !== 'riddle' || game.ending) return game;
+  const door = findEntity(things, win.door);
+  const guarded = !!door && positionsOf(game).some((at, i) => i !== inside && checkDist(at, door, interactionRadius(door)));
+  return guarded ? game : slamDoor(game, events);
+};
+
+// Devils move and the players take damage; lava also throws a player back to their spawn. Whoever is
+// inside the riddle door is out of reach.
+const stepDanger = (game: GameState, dt: number, events: GameEvent[]): GameState => {
+  if (game.ending) return game;
+  const { level, inside } = game;
+  const positions = positionsOf(game);
+  const exposed = positions.flatMap((_, i) => (i === inside ? [] : [i]));
+  const { state, hit, victim } = stepHazards(game.hazards, level.enemies ?? [], exposed.map(i => positions[i]), level.obstacles, game.enemyGrid, level.lava, dt);
+  let g: GameState = { ...game, hazards: state };
+  if (!hit) return g;
+  events.push({ type: 'sound', sound: 'hurt' });
+  if (hit === 'lava' && state.hearts > 0) {
+    const player = exposed[victim];
+    const spawn = spawnsOf(level)[player];
+    g = {
+      ...g,
+      bodies: replaceAt(g.bodies, player, { ...g.bodies[player], pos: { ...spawn }, vel: { x: 0, y: 0 } }),
+      // A respawn is a jump, not a walk
+      prev: replaceAt(g.prev, player, { ...spawn }),
+    };
+  }
+  return inside !== null ? slamDoor(g, events) : g;
+};
+
+// Where `player` walks given everyone's input
+const steer = (game: GameState, inputs: InputFrame[], player: number): Vec2 => {
+  const { inside } = game;
+  if (inside === player) return { x: 0, y: 0 };
+  // The typist's keys are busy with the answer, so whichever keys still reach the game steer the guard
+  if (inside !== null) return inputs.reduce((sum, input) => ({ x: sum.x + input.move.x, y: sum.y + input.move.y }), { x: 0, y: 0 });
+  // Holding interact at the cauldron turns the spoon with left / right instead of walking
+  return inputs[player].interact && canStirAt(game, player) ? { x: 0, y: 0 } : inputs[player].move;
+};
+
+/**
+ * Runs one fixed step with each player's input. A decided level announces its outcome here once its
+ * delay has passed; paused steps (game over, a failed dish, the solo riddle door) only count time.
+ */
+export const stepGame = (game: GameState, inputs: InputFrame[], dt = STEP): GameResult => {
+  const events: GameEvent[] = [];
+  let g: GameState = { ...game, step: game.step + 1 };
+  if (g.ending && !g.ending.announced && g.step >= g.ending.at) {
+    events.push({ type: g.ending.outcome, stats: g.stats });
+    g = { ...g, ending: { ...g.ending, announced: true } };
+  }
+  if (isPaused(g)) return { game: { ...g, prev: positionsOf(g) }, events };
+
+  const moves = inputs.map((_, i) => steer(g, inputs, i));
+  const bodies = g.noclip ? g.bodies.map((b, i) => stepBody(b, moves[i], [], dt)) : stepBodies(g.bodies, moves, g.level.obstacles, dt);
+  g = { ...g, prev: positionsOf(g), bodies };
+  inputs.forEach((input, i) => {
+    if (g.inside !== i) g = stepInteract(g, i, input, dt, events);
+  });
+  g = stepKitchen(g, dt, events);
+  g = stepCauldron(g, dt, events);
+  g = stepDanger(g, dt, events);
+  g = stepGuard(g, events);
+  return { game: g, events };
+};
+
+const applyAnswer = (game: GameState, answer: string, result: AnswerResponse, events: GameEvent[]): GameState => {
+  const g = { ...game, answers: [...game.answers, { answer, result }] };
+  if (result.solved) return end(g, 'complete', 500);
+  events.push({ type: 'sound', sound: 'buzz' });
+  const failed = { ...g, stats: { ...g.stats, wrongAnswers: g.stats.wrongAnswers + 1 } };
+  return result.attemptsLeft <= 0 ? end(failed, 'restart', 2000) : failed;
+};
+
+/** Applies input that arrived between steps. A recording replays it at the start of the following step. */
+export const applyAction = (game: GameState, action: GameAction): GameResult => {
+  const events: GameEvent[] = [];
+  switch (action.type) {
+    case 'stroke':
+      return {
+        game: { ...game, stir: startStroke(game.stir, action.player, action.angle), stats: { ...game.stats, stirStrokes: game.stats.stirStrokes + 1 } },
+        events,
+      };
+    case 'stir':
+      return { game: { ...game, stir: moveSpoon(game.stir, action.player, action.angle) }, events };
+    case 'answer':
+      return { game: applyAnswer(game, action.answer, action.result, events), events };
+  }
+};
@@ -0,0 +1,107 @@
+import { GAME_WIDTH, GAME_HEIGHT } from './constants';
+import type { Obstacle, Vec2 } from './movement';
+
+// --- RASTERIZATION ---
+export type Grid = {
+  cell: number;
+  cols: number;
+  rows: number;
+  // blocked[row * cols + col]: an agent whose top-left corner sits on this cell would overlap something solid
+  blocked: boolean[];
+};
+
+const overlaps = (a: Obstacle, b: Obstacle) =>
+  a.x < b.x + b.w && a.x + a.w > b.x &&
+  a.y < b.y + b.h && a.y + a.h > b.y;
+
+/**
+ * Rasterizes the board for an agent of the given size. Each cell stands for the agent's top-left
+ * corner being at that cell's origin, so a free cell is a position the whole agent fits in.
+ */
+export const buildGrid = (solids: Obstacle[], agent: { w: number, h: number }, cell: number): Grid => {
+  const cols = Math.floor((GAME_WIDTH - agent.w) / cell) + 1;
+  const rows = Math.floor((GAME_HEIGHT - agent.h) / cell) + 1;
+  const blocked: boolean[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const rect = { x: c * cell, y: r * cell, ...agent };
+      blocked.push(solids.some(s => overlaps(rect, s)));
+    }
+  }
+  return { cell, cols, rows, blocked };
+};
+
+export const toCell = (grid: Grid, p: Vec2) => ({
+  col: Math.max(0, Math.min(grid.cols - 1, Math.round(p.x / grid.cell))),
+  row: Math.max(0, Math.min(grid.rows - 1, Math.round(p.y / grid.cell))),
+});
+
+export const isFree = (grid: Grid, col: number, row: number) =>
+  col >= 0 && row >= 0 && col < grid.cols && row < grid.rows && !grid.blocked[row * grid.cols + col];
+
+// --- SEARCH ---
+const NEIGHBOURS = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [1, -1], [-1, 1], [-1, -1],
+];
+
+/**
+ * Breadth-first flood from `start` over free cells, moving in 8 directions without cutting corners.
+ * Returns the predecessor index of every cell: -1 for the start, -2 for cells it never reached.
+ */
+export const flood = (grid: Grid, start: Vec2): Int32Array => {
+  const came = new Int32Array(grid.cols * grid.rows).fill(-2);
+  const s = toCell(grid, start);
+  if (!isFree(grid, s.col, s.row)) return came;
+
+  const startIdx = s.row * grid.cols + s.col;
+  came[startIdx] = -1;
+  const queue = [startIdx];
+  for (let head = 0; head < queue.length; head++) {
+    const idx = queue[head];
+    const col = idx % grid.cols;
+    const row = Math.floor(idx / grid.cols);
+    for (const [dc, dr] of NEIGHBOURS) {
+      const nc = col + dc;
+      const nr = row + dr;
+      if (!isFree(grid, nc, nr)) continue;
+      // Diagonal moves need both orthogonal neighbours free, otherwise the agent would clip a corner
+      if (dc !== 0 && dr !== 0 && (!isFree(grid, col + dc, row) || !isFree(grid, col, row + dr))) continue;
+      const n = nr * grid.cols + nc;
+      if (came[n] !== -2) continue;
+      came[n] = idx;
+      queue.push(n);
+    }
+  }
+  return came;
+};
+
+export const isReached = (came: Int32Array, grid: Grid, col: number, row: number) => came[row * grid.cols + col] !== -2;
+
+/** Shortest path as board positions (cell origins), excluding the start. Empty when there is none. */
+export const findPath = (grid: Grid, from: Vec2, to: Vec2): Vec2[] => {
+  const came = flood(grid, from);
+  const t = toCell(grid, to);
+  let idx = t.row * grid.cols + t.col;
+  if (came[idx] === -2) return [];
+
+  const path: Vec2[] = [];
+  while (came[idx] !== -1) {
+    path.push({ x: (idx % grid.cols) * grid.cell, y: Math.floor(idx / grid.cols) * grid.cell });
+    idx = came[idx];
+  }
+  return path.reverse();
+};
+
+// Sampled segment test; good enough for sight checks against chunky rocks
+export const hasLineOfSight = (a: Vec2, b: Vec2, solids: Obstacle[], step = 8) => {
+  const dist = Math.hypot(b.x - a.x, b.y - a.y);
+  const samples = Math.ceil(dist / step);
+  for (let i = 1; i < samples; i++) {
+    const t = i / samples;
+    const x = a.x + (b.x - a.x) * t;
+    const y = a.y + (b.y - a.y) * t;
+    if (solids.some(s => x >= s.x && x <= s.x + s.w && y >= s.y && y <= s.y + s.h)) return false;
+  }
+  return true;
+};
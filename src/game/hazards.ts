@@ -0,0 +1,164 @@
+import { GAME_WIDTH, GAME_HEIGHT, PLAYER_SIZE, LAVA_TOP } from './constants';
+import { buildGrid, findPath, hasLineOfSight, toCell, type Grid } from './grid';
+import type { Obstacle, Vec2 } from './movement';
+import type { Enemy } from '../levels/schema';
+
+export const DEFAULT_HEALTH = 3;
+// Seconds of invulnerability after taking a hit
+export const INVULNERABLE_TIME = 1.5;
+// How far the player's feet can sink into the lava strip before it burns (half the sprite)
+const LAVA_GRACE = 32;
+
+export const ENEMY_SIZE = { w: 48, h: 64 };
+const DEFAULT_ENEMY_SPEED = 90;
+const CHASE_SPEED_FACTOR = 1.4;
+const DEFAULT_SIGHT = 200;
+// Chasing devils re-plan this often so they follow a moving target
+const REPATH_INTERVAL = 0.25;
+// Contact needs real overlap, not just touching sprite edges
+export const HIT_INSET = 10;
+const PATH_CELL = 16;
+
+export const LAVA_ZONE: Obstacle = { x: 0, y: LAVA_TOP, w: GAME_WIDTH, h: GAME_HEIGHT - LAVA_TOP };
+
+export type EnemyState = {
+  pos: Vec2;
+  dir: number;
+  // Index into the definition's path of the waypoint being walked to
+  waypoint: number;
+  route: Vec2[];
+  repathIn: number;
+  chasing: boolean;
+};
+
+export type HazardState = {
+  enemies: EnemyState[];
+  hearts: number;
+  // Seconds of invulnerability left
+  invulnerable: number;
+};
+
+export type HazardHit = 'lava' | 'enemy' | null;
+
+export const createHazards = (enemies: Enemy[], health = DEFAULT_HEALTH): HazardState => ({
+  enemies: enemies.map(en => ({ pos: { x: en.x, y: en.y }, dir: 1, waypoint: 0, route: [], repathIn: 0, chasing: false })),
+  hearts: health,
+  invulnerable: 0,
+});
+
+// Devils walk around rocks and never step into the lava
+export const buildEnemyGrid = (obstacles: Obstacle[], lava: boolean): Grid =>
+  buildGrid(lava ? [...obstacles, LAVA_ZONE] : obstacles, ENEMY_SIZE, PATH_CELL);
+
+export const inLava = (pos: Vec2) => pos.y + PLAYER_SIZE > LAVA_TOP + LAVA_GRACE;
+
+const centre = (p: Vec2, size: { w: number, h: number }) => ({ x: p.x + size.w / 2, y: p.y + size.h / 2 });
+
+const touchesPlayer = (enemy: Vec2, player: Vec2) =>
+  enemy.x + HIT_INSET < player.x + PLAYER_SIZE && enemy.x + ENEMY_SIZE.w - HIT_INSET > player.x &&
+  enemy.y + HIT_INSET < player.y + PLAYER_SIZE && enemy.y + ENEMY_SIZE.h - HIT_INSET > player.y;
+
+// The nearest player the devil can see, if any
+const spot = (eye: Vec2, players: Vec2[], sight: number, obstacles: Obstacle[]) => {
+  let best: Vec2 | null = null;
+  let bestDist = sight;
+  for (const player of players) {
+    const target = centre(player, { w: PLAYER_SIZE, h: PLAYER_SIZE });
+    const dist = Math.hypot(target.x - eye.x, target.y - eye.y);
+    if (dist < bestDist && hasLineOfSight(eye, target, obstacles)) {
+      best = player;
+      bestDist = dist;
+    }
+  }
+  return best;
+};
+
+const stepEnemy = (state: EnemyState, def: Enemy, players: Vec2[], obstacles: Obstacle[], grid: Grid, dt: number): EnemyState => {
+  const next: EnemyState = { ...state, pos: { ...state.pos }, route: state.route };
+  const eye = centre(next.pos, ENEMY_SIZE);
+  const player = spot(eye, players, def.sight ?? DEFAULT_SIGHT, obstacles);
+  const sees = player !== null;
+
+  const waypoints = def.path && def.path.length > 0 ? def.path : [{ x: def.x, y: def.y }];
+  if (sees !== next.chasing) {
+    next.chasing = sees;
+    next.repathIn = 0;
+  }
+
+  // Standing on the current waypoint: head for the next one
+  const reached = (p: Vec2) => Math.hypot(p.x - next.pos.x, p.y - next.pos.y) < 1;
+  if (!next.chasing && reached(waypoints[next.waypoint % waypoints.length]) && waypoints.length > 1) {
+    next.waypoint = (next.waypoint + 1) % waypoints.length;
+    next.route = [];
+  }
+
+  const goal = player
+    ? { x: player.x + (PLAYER_SIZE - ENEMY_SIZE.w) / 2, y: player.y + PLAYER_SIZE - ENEMY_SIZE.h }
+    : waypoints[next.waypoint % waypoints.length];
+  next.repathIn -= dt;
+  if ((next.repathIn <= 0 || next.route.length === 0) && !reached(goal)) {
+    const path = findPath(grid, next.pos, goal);
+    const from = toCell(grid, next.pos);
+    const to = toCell(grid, goal);
+    // The grid path ends on the goal's cell; finish with the exact goal position
+    next.route = path.length > 0 || (from.col === to.col && from.row === to.row) ? [...path, goal] : [];
+    // A patrol route only changes when the waypoint does
+    next.repathIn = next.chasing ? REPATH_INTERVAL : Infinity;
+  }
+
+  let budget = (def.speed ?? DEFAULT_ENEMY_SPEED) * (next.chasing ? CHASE_SPEED_FACTOR : 1) * dt;
+  while (budget > 0 && next.route.length > 0) {
+    const [to, ...rest] = next.route;
+    const dx = to.x - next.pos.x;
+    const dy = to.y - next.pos.y;
+    const dist = Math.hypot(dx, dy);
+    if (dx !== 0) next.dir = Math.sign(dx);
+    if (dist <= budget) {
+      next.pos = { ...to };
+      next.route = rest;
+      budget -= dist;
+    } else {
+      next.pos = { x: next.pos.x + dx / dist * budget, y: next.pos.y + dy / dist * budget };
+      budget = 0;
+    }
+  }
+
+  return next;
+};
+
+/**
+ * Advances every devil by one fixed step and reports whether a player got hurt, and which. The caller
+ * applies the consequences (respawn, game over) since those involve the player's body. In co-op the
+ * hearts and the invulnerability after a hit are shared.
+ */
+export const stepHazards = (
+  state: HazardState,
+  defs: Enemy[],
+  players: Vec2[],
+  obstacles: Obstacle[],
+  grid: Grid,
+  lava: boolean,
+  dt: number,
+): { state: HazardState, hit: HazardHit, victim: number } => {
+  const enemies = state.enemies.map((en, i) => stepEnemy(en, defs[i], players, obstacles, grid, dt));
+  const invulnerable = Math.max(0, state.invulnerable - dt);
+
+  let hit: HazardHit = null;
+  let victim = -1;
+  if (state.hearts > 0 && invulnerable === 0) {
+    victim = players.findIndex(p => lava && inLava(p));
+    if (victim >= 0) hit = 'lava';
+    else {
+      victim = players.findIndex(p => enemies.some(en => touchesPlayer(en.pos, p)));
+      if (victim >= 0) hit = 'enemy';
+    }
+  }
+
+  return {
+    state: hit
+      ? { enemies, hearts: state.hearts - 1, invulnerable: INVULNERABLE_TIME }
+      : { enemies, hearts: state.hearts, invulnerable },
+    hit,
+    victim,
+  };
+};
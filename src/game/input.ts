@@ -0,0 +1,171 @@
+import { useEffect, useRef, useCallback } from 'react';
+import type { Vec2 } from './movement';
+
+// One fixed step's worth of player intent, merged from every input device
+export type InputFrame = {
+  // Each component in -1..1; analog sources give partial values
+  move: Vec2;
+  interact: boolean;
+  // Put down (or, while moving, throw) the item in hand
+  drop: boolean;
+  // Burner knob: -1 turns the heat down, 1 turns it up
+  heat: number;
+};
+
+// --- KEYBOARD ---
+export type KeyBindings = {
+  directions: Record<string, Vec2>;
+  interact: string[];
+  drop: string[];
+  heat: Record<string, number>;
+};
+
+const ARROWS: Record<string, Vec2> = {
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+};
+const WASD: Record<string, Vec2> = {
+  KeyW: { x: 0, y: -1 },
+  KeyS: { x: 0, y: 1 },
+  KeyA: { x: -1, y: 0 },
+  KeyD: { x: 1, y: 0 },
+};
+const LEFT_HAND = { interact: ['KeyE', 'Space'], drop: ['KeyQ'], heat: { KeyZ: -1, KeyX: 1 } };
+
+// One player can use either hand
+export const SOLO_KEYS: KeyBindings = { directions: { ...ARROWS, ...WASD }, ...LEFT_HAND };
+// Two players on one keyboard: player one keeps the arrows and the keys beside them, player two has WASD
+export const COOP_KEYS: KeyBindings[] = [
+  { directions: ARROWS, interact: ['Enter'], drop: ['ShiftRight'], heat: { Period: -1, Slash: 1 } },
+  { directions: WASD, ...LEFT_HAND },
+];
+
+const isGameKey = (code: string) => [SOLO_KEYS, ...COOP_KEYS].some(keys =>
+  code in keys.directions || keys.interact.includes(code) || keys.drop.includes(code) || code in keys.heat);
+
+const isTyping = (e: KeyboardEvent) => !!(e.target as HTMLElement | null)?.closest?.('input, textarea, select');
+
+/**
+ * Tracks which game keys are currently held, by physical key so layouts and Shift don't leave keys stuck.
+ * With `arrowsWhileTyping` the arrow keys still count while a text field has focus, so one player can
+ * move while the other types.
+ */
+export const usePressedKeys = (arrowsWhileTyping = false) => {
+  const pressed = useRef(new Set<string>());
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!isGameKey(e.code)) return;
+      if (isTyping(e)) {
+        if (arrowsWhileTyping && e.code in ARROWS) pressed.current.add(e.code);
+        return;
+      }
+      e.preventDefault();
+      pressed.current.add(e.code);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      pressed.current.delete(e.code);
+    };
+    const handleBlur = () => pressed.current.clear();
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [arrowsWhileTyping]);
+
+  return pressed;
+};
+
+export const readKeyboard = (pressed: Set<string>, keys: KeyBindings = SOLO_KEYS): InputFrame => {
+  let x = 0;
+  let y = 0;
+  let heat = 0;
+  pressed.forEach(code => {
+    const d = keys.directions[code];
+    if (d) { x += d.x; y += d.y; }
+    heat += keys.heat[code] ?? 0;
+  });
+  return {
+    move: { x: Math.sign(x), y: Math.sign(y) },
+    interact: keys.interact.some(code => pressed.has(code)),
+    drop: keys.drop.some(code => pressed.has(code)),
+    heat: Math.sign(heat),
+  };
+};
+
+// --- TOUCH ---
+// Written by the on-screen VirtualJoystick, read by the game loop. There is only ever one touch player, player one.
+export const virtualStick: InputFrame = { move: { x: 0, y: 0 }, interact: false, drop: false, heat: 0 };
+
+// --- GAMEPAD ---
+const DEADZONE = 0.2;
+// Standard mapping: 0 = A / Cross, 1 = B / Circle, 4-5 = shoulder buttons, 12-15 = d-pad up/down/left/right
+const PAD_INTERACT = 0;
+const PAD_DROP = 1;
+const PAD_HEAT_DOWN = 4, PAD_HEAT_UP = 5;
+const PAD_UP = 12, PAD_DOWN = 13, PAD_LEFT = 14, PAD_RIGHT = 15;
+
+const deadzone = (v: number) => (Math.abs(v) < DEADZONE ? 0 : v);
+
+// The `index`th connected pad, in the order the browser lists them
+export const readGamepad = (index = 0): InputFrame | null => {
+  const pads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+  const pad = Array.from(pads).filter(p => p?.connected)[index];
+  if (!pad) return null;
+
+  const held = (i: number) => !!pad.buttons[i]?.pressed;
+  const dpadX = (held(PAD_RIGHT) ? 1 : 0) - (held(PAD_LEFT) ? 1 : 0);
+  const dpadY = (held(PAD_DOWN) ? 1 : 0) - (held(PAD_UP) ? 1 : 0);
+  return {
+    move: {
+      x: dpadX || deadzone(pad.axes[0] ?? 0),
+      y: dpadY || deadzone(pad.axes[1] ?? 0),
+    },
+    interact: held(PAD_INTERACT),
+    drop: held(PAD_DROP),
+    heat: (held(PAD_HEAT_UP) ? 1 : 0) - (held(PAD_HEAT_DOWN) ? 1 : 0),
+  };
+};
+
+// --- MERGED ---
+const clampUnit = (v: number) => Math.max(-1, Math.min(1, v));
+
+export const mergeInputs = (frames: (InputFrame | null)[]): InputFrame => {
+  let x = 0;
+  let y = 0;
+  let interact = false;
+  let drop = false;
+  let heat = 0;
+  for (const f of frames) {
+    if (!f) continue;
+    x += f.move.x;
+    y += f.move.y;
+    interact ||= f.interact;
+    drop ||= f.drop;
+    heat += f.heat;
+  }
+  return { move: { x: clampUnit(x), y: clampUnit(y) }, interact, drop, heat: Math.sign(heat) };
+};
+
+/**
+ * Returns a reader to call once per fixed step, giving one frame per player; it polls the gamepads,
+ * which have no events for held state. In co-op each player has their own keys and pad, and the
+ * touch controls belong to player one.
+ */
+export const useInput = (players = 1) => {
+  const pressed = usePressedKeys(players > 1);
+  return useCallback(
+    (): InputFrame[] => (players > 1
+      ? COOP_KEYS.slice(0, players).map((keys, i) =>
+        mergeInputs([readKeyboard(pressed.current, keys), i === 0 ? virtualStick : null, readGamepad(i)]))
+      : [mergeInputs([readKeyboard(pressed.current), virtualStick, readGamepad()])]),
+    [pressed, players],
+  );
+};
@@ -0,0 +1,156 @@
+import { GAME_WIDTH, GAME_HEIGHT, PLAYER_SIZE } from './constants';
+import { checkDist, type Obstacle, type Vec2 } from './movement';
+import { INTERACTABLE_SIZE } from '../levels/layout';
+import {
+  interactionRadius,
+  isItemKind,
+  type Interactable,
+  type InteractableKind,
+  type InteractionRule,
+  type ItemKind,
+  type LevelDefinition,
+} from '../levels/schema';
+
+export const DEFAULT_CARRY_LIMIT = 1;
+export const IDLE = 'idle';
+// Picked-up items stay in the list in this state; they are neither drawn nor interactable
+export const TAKEN = 'taken';
+// Distance a dropped item flies when the player is moving
+const THROW_DISTANCE = 128;
+const THROW_STEP = 8;
+
+// An interactable at run time: where it is, what state it's in and what has been put into it
+export type Entity = Interactable & { state: string, contents: ItemKind[] };
+
+export type InteractionWorld = {
+  // Carried items per player, oldest first; the last one is in that player's hands
+  inventories: ItemKind[][];
+  carryLimit: number;
+  entities: Entity[];
+  // Items dropped so far, for unique ids
+  dropped: number;
+};
+
+// `player` acts; `helper` is the other player an assisted rule needs
+export type Interaction = { entity: Entity, rule: InteractionRule, player: number, helper?: number };
+
+/** What each kind does when a level doesn't spell out its own rules. */
+export const defaultInteractions = (kind: InteractableKind): InteractionRule[] => {
+  if (isItemKind(kind)) return [{ prompt: `pick up ${kind}`, from: [IDLE], gives: kind, to: TAKEN }];
+  switch (kind) {
+    case 'stove': return [{ prompt: 'place pot on stove', from: [IDLE], takes: 'pot', to: 'lit' }];
+    case 'door': return [{ prompt: 'knock on the door', from: [IDLE], to: 'open' }];
+    // Stirring is held, not pressed, so the runner handles it
+    case 'cauldron': return [];
+  }
+};
+
+export const interactionsOf = (it: Interactable) => it.interactions ?? defaultInteractions(it.kind);
+
+export const createInteractionWorld = (level: LevelDefinition, players = 1): InteractionWorld => ({
+  inventories: Array.from({ length: players }, () => []),
+  carryLimit: level.carryLimit ?? DEFAULT_CARRY_LIMIT,
+  entities: level.interactables.map(it => ({ ...it, state: it.state ?? IDLE, contents: [] })),
+  dropped: 0,
+});
+
+export const holding = (world: InteractionWorld, kind: ItemKind, player = 0) => world.inventories[player].includes(kind);
+
+export const findEntity = (world: InteractionWorld, id: string) => world.entities.find(e => e.id === id);
+
+// Another player standing by `entity` with what an assisted rule asks them to hold
+const findHelper = (world: InteractionWorld, entity: Entity, rule: InteractionRule, positions: Vec2[], player: number) => {
+  const helper = positions.findIndex((at, i) =>
+    i !== player && checkDist(at, entity, interactionRadius(entity)) && (!rule.assist?.holding || holding(world, rule.assist.holding, i)));
+  return helper < 0 ? undefined : helper;
+};
+
+const applies = (world: InteractionWorld, entity: Entity, rule: InteractionRule, player: number) =>
+  (!rule.from || rule.from.includes(entity.state)) &&
+  (!rule.takes || holding(world, rule.takes, player)) &&
+  (!rule.gives || world.inventories[player].length - (rule.takes ? 1 : 0) < world.carryLimit);
+
+/**
+ * What `player`'s interact key would do where everyone stands: the first applicable rule of the nearest
+ * entity in range. An assisted rule only applies while the other player is there to help.
+ */
+export const findInteraction = (world: InteractionWorld, positions: Vec2[], player = 0): Interaction | null => {
+  const at = positions[player];
+  let best: Interaction | null = null;
+  let bestDist = Infinity;
+  for (const entity of world.entities) {
+    if (!checkDist(at, entity, interactionRadius(entity))) continue;
+    const dist = Math.hypot(entity.x - at.x, entity.y - at.y);
+    if (dist >= bestDist) continue;
+    for (const rule of interactionsOf(entity)) {
+      if (!applies(world, entity, rule, player)) continue;
+      const helper = rule.assist ? findHelper(world, entity, rule, positions, player) : undefined;
+      if (rule.assist && helper === undefined) continue;
+      best = { entity, rule, player, helper };
+      bestDist = dist;
+      break;
+    }
+  }
+  return best;
+};
+
+const without = (items: ItemKind[], kind: ItemKind) => {
+  const i = items.lastIndexOf(kind);
+  return [...items.slice(0, i), ...items.slice(i + 1)];
+};
+
+export const interact = (world: InteractionWorld, { entity, rule, player, helper }: Interaction): InteractionWorld => {
+  const handed = helper !== undefined ? rule.assist?.holding : undefined;
+  const inventories = world.inventories.map((items, i) => {
+    if (i === helper && handed) return without(items, handed);
+    if (i !== player) return items;
+    const left = rule.takes ? without(items, rule.takes) : items;
+    return rule.gives ? [...left, rule.gives] : left;
+  });
+  const added = [rule.takes, handed].filter((k): k is ItemKind => !!k);
+  const entities = world.entities.map(e => e.id !== entity.id ? e : {
+    ...e,
+    state: rule.to ?? e.state,
+    contents: [...e.contents, ...added],
+  });
+  return { ...world, inventories, entities };
+};
+
+// For state changes that come from level logic rather than a rule, e.g. a dish finishing
+export const setEntityState = (world: InteractionWorld, id: string, state: string): InteractionWorld => ({
+  ...world,
+  entities: world.entities.map(e => (e.id === id ? { ...e, state } : e)),
+});
+
+const blocked = (rect: Obstacle, solids: Obstacle[]) =>
+  rect.x < 0 || rect.y < 0 || rect.x + rect.w > GAME_WIDTH || rect.y + rect.h > GAME_HEIGHT ||
+  solids.some(s => rect.x < s.x + s.w && rect.x + rect.w > s.x && rect.y < s.y + s.h && rect.y + rect.h > s.y);
+
+/**
+ * Puts the item in `player`'s hands back on the board at their feet. With a `throwDir` it flies
+ * ahead until it hits a rock, the lava or the edge of the board.
+ */
+export const dropItem = (world: InteractionWorld, player: number, at: Vec2, throwDir: Vec2 | null, solids: Obstacle[]): InteractionWorld => {
+  const inventory = world.inventories[player];
+  const kind = inventory[inventory.length - 1];
+  if (!kind) return world;
+
+  const size = INTERACTABLE_SIZE[kind];
+  let pos = { x: at.x + (PLAYER_SIZE - size.w) / 2, y: at.y + PLAYER_SIZE - size.h };
+  const len = throwDir ? Math.hypot(throwDir.x, throwDir.y) : 0;
+  if (throwDir && len > 0) {
+    for (let d = THROW_STEP; d <= THROW_DISTANCE; d += THROW_STEP) {
+      const next = { x: pos.x + throwDir.x / len * THROW_STEP, y: pos.y + throwDir.y / len * THROW_STEP };
+      if (blocked({ ...next, ...size }, solids)) break;
+      pos = next;
+    }
+  }
+
+  const entity: Entity = { id: `${kind}-dropped-${world.dropped + 1}`, kind, x: Math.round(pos.x), y: Math.round(pos.y), state: IDLE, contents: [] };
+  return {
+    ...world,
+    inventories: world.inventories.map((items, i) => (i === player ? items.slice(0, -1) : items)),
+    entities: [...world.entities, entity],
+    dropped: world.dropped + 1,
+  };
+};
@@ -0,0 +1,137 @@
+import { useEffect, useRef } from 'react';
+import { GAME_WIDTH, GAME_HEIGHT, PLAYER_SIZE } from './constants';
+
+export type Vec2 = { x: number, y: number };
+export type Obstacle = { x: number, y: number, w: number, h: number };
+
+// --- SIMULATION ---
+export const STEP = 1 / 60;
+export const MAX_SPEED = 300;
+export const ACCEL = 2400;
+export const FRICTION = 3000;
+// Largest distance moved before re-checking collisions, so fast movement can't tunnel through thin rocks
+const SUB_STEP = 4;
+// Cap on simulated time per frame so a backgrounded tab doesn't fast-forward on return
+const MAX_FRAME = 0.25;
+
+export type Body = { pos: Vec2, vel: Vec2, dir: number };
+
+const collides = (x: number, y: number, obstacles: Obstacle[]) => obstacles.find(obs =>
+  x < obs.x + obs.w && x + PLAYER_SIZE > obs.x &&
+  y < obs.y + obs.h && y + PLAYER_SIZE > obs.y
+);
+
+// Move along one axis in small increments, stopping flush against the first obstacle hit
+const moveAxis = (body: Body, axis: 'x' | 'y', delta: number, obstacles: Obstacle[]) => {
+  const limit = axis === 'x' ? GAME_WIDTH - PLAYER_SIZE : GAME_HEIGHT - PLAYER_SIZE;
+  let remaining = delta;
+  while (remaining !== 0) {
+    const d = Math.sign(remaining) * Math.min(SUB_STEP, Math.abs(remaining));
+    const next = Math.max(0, Math.min(body.pos[axis] + d, limit));
+    const probe = axis === 'x' ? { x: next, y: body.pos.y } : { x: body.pos.x, y: next };
+    const hit = collides(probe.x, probe.y, obstacles);
+    if (hit) {
+      const near = axis === 'x' ? hit.x : hit.y;
+      const size = axis === 'x' ? hit.w : hit.h;
+      body.pos[axis] = d > 0 ? near - PLAYER_SIZE : near + size;
+      body.vel[axis] = 0;
+      return;
+    }
+    if (next === body.pos[axis]) {
+      // Clamped against the board edge
+      body.vel[axis] = 0;
+      return;
+    }
+    body.pos[axis] = next;
+    remaining -= d;
+  }
+};
+
+const approach = (v: number, target: number, maxDelta: number) =>
+  v < target ? Math.min(v + maxDelta, target) : Math.max(v - maxDelta, target);
+
+/**
+ * Advances a body by one fixed step. `input` is the desired direction with components in -1..1;
+ * diagonals are normalized so they are no faster than straight lines.
+ */
+export const stepBody = (body: Body, input: Vec2, obstacles: Obstacle[], dt = STEP): Body => {
+  const len = Math.hypot(input.x, input.y);
+  const nx = len > 1 ? input.x / len : input.x;
+  const ny = len > 1 ? input.y / len : input.y;
+
+  const next: Body = { pos: { ...body.pos }, vel: { ...body.vel }, dir: body.dir };
+  next.vel.x = approach(next.vel.x, nx * MAX_SPEED, (nx !== 0 ? ACCEL : FRICTION) * dt);
+  next.vel.y = approach(next.vel.y, ny * MAX_SPEED, (ny !== 0 ? ACCEL : FRICTION) * dt);
+  if (nx !== 0) next.dir = Math.sign(nx);
+
+  moveAxis(next, 'x', next.vel.x * dt, obstacles);
+  moveAxis(next, 'y', next.vel.y * dt, obstacles);
+  return next;
+};
+
+const bodyRect = (body: Body): Obstacle => ({ ...body.pos, w: PLAYER_SIZE, h: PLAYER_SIZE });
+
+/**
+ * Steps every player in turn, each treating the others as rocks. Players already overlapping (e.g. one
+ * respawned onto the other) ignore each other until they have walked apart.
+ */
+export const stepBodies = (bodies: Body[], moves: Vec2[], obstacles: Obstacle[], dt = STEP): Body[] => {
+  const next = [...bodies];
+  next.forEach((body, i) => {
+    const others = next.filter((other, j) => j !== i && !collides(other.pos.x, other.pos.y, [bodyRect(body)])).map(bodyRect);
+    next[i] = stepBody(body, moves[i], others.length > 0 ? [...obstacles, ...others] : obstacles, dt);
+  });
+  return next;
+};
+
+// --- LOOP ---
+/**
+ * Runs `update` at a fixed STEP from requestAnimationFrame, then `render` once per frame with the
+ * fraction of a step left in the accumulator (for interpolation). `speed` scales how fast simulated
+ * time passes; 0 freezes it.
+ */
+export const useGameLoop = (update: (dt: number) => void, render: (alpha: number) => void, speed = 1) => {
+  const callbacks = useRef({ update, render, speed });
+  callbacks.current = { update, render, speed };
+
+  useEffect(() => {
+    let frame = 0;
+    let last = performance.now();
+    let acc = 0;
+
+    const tick = (now: number) => {
+      acc += Math.min((now - last) / 1000, MAX_FRAME) * callbacks.current.speed;
+      last = now;
+      while (acc >= STEP) {
+        callbacks.current.update(STEP);
+        acc -= STEP;
+      }
+      callbacks.current.render(acc / STEP);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+};
+
+export type PlayerView = { pos: Vec2, dir: number };
+
+export const sameView = (a: PlayerView[], b: PlayerView[]) =>
+  a.length === b.length && a.every((v, i) => v.pos.x === b[i].pos.x && v.pos.y === b[i].pos.y && v.dir === b[i].dir);
+
+/** Where to draw each body, `alpha` of the way from where it stood before the last step. */
+export const interpolate = (prev: Vec2[], bodies: Body[], alpha: number): PlayerView[] =>
+  bodies.map(({ pos: cur, dir }, i) => ({
+    pos: {
+      x: Math.round(prev[i].x + (cur.x - prev[i].x) * alpha),
+      y: Math.round(prev[i].y + (cur.y - prev[i].y) * alpha),
+    },
+    dir,
+  }));
+
+// Increased threshold and adjusted center points for easier interaction
+export const checkDist = (p1: Vec2, p2: Vec2, threshold = 150) => {
+  const dx = (p1.x + 32) - (p2.x + 32);
+  const dy = (p1.y + 32) - (p2.y + 32);
+  return Math.sqrt(dx*dx + dy*dy) < threshold;
+};
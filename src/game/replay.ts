@@ -0,0 +1,122 @@
+import { STEP } from './movement';
+import type { InputFrame } from './input';
+import type { GameAction } from './engine';
+import type { PuzzleInfo } from '../api/puzzles';
+import { validateLevel, playerCount, type LevelDefinition } from '../levels/schema';
+
+// --- RECORDING SCHEMA ---
+// Bumped whenever the rules change in a way that would make older recordings play back differently
+export const REPLAY_VERSION = 4;
+
+// Inputs are stored only when they change; a change holds until the next one
+export type InputChange = InputFrame & { step: number };
+
+// Things that happen outside the fixed step and can't be derived from the inputs, plus pickups for reading the log
+export type ReplayEvent = { step: number } & (GameAction | { type: 'pickup', player: number, id: string });
+
+// One mount of a level, from spawn until it was completed or restarted
+export type LevelRecording = {
+  level: LevelDefinition;
+  // Fixed steps simulated, including paused ones
+  steps: number;
+  outcome: 'complete' | 'restart' | null;
+  // One log per player
+  inputs: InputChange[][];
+  events: ReplayEvent[];
+  // The riddle the door asked, so playback can show it without asking the server
+  puzzle?: PuzzleInfo;
+};
+
+export type RunRecording = {
+  version: number;
+  recordedAt: string;
+  stepMs: number;
+  attempts: LevelRecording[];
+};
+
+export const createRunRecording = (): RunRecording => ({
+  version: REPLAY_VERSION,
+  recordedAt: new Date().toISOString(),
+  stepMs: STEP * 1000,
+  attempts: [],
+});
+
+export const createLevelRecording = (level: LevelDefinition): LevelRecording => ({
+  level,
+  steps: 0,
+  outcome: null,
+  inputs: Array.from({ length: playerCount(level) }, () => []),
+  events: [],
+});
+
+const sameInput = (a: InputFrame, b: InputFrame) =>
+  a.move.x === b.move.x && a.move.y === b.move.y && a.interact === b.interact && a.drop === b.drop && a.heat === b.heat;
+
+// Recordings are appended to in place every step; copying them 60 times a second would be wasteful
+export const recordInput = (rec: LevelRecording, step: number, inputs: InputFrame[]) => {
+  rec.inputs.forEach((log, i) => {
+    const input = inputs[i];
+    const last = log[log.length - 1];
+    if (!last || !sameInput(last, input)) log.push({ step, move: { ...input.move }, interact: input.interact, drop: input.drop, heat: input.heat });
+  });
+  rec.steps = step + 1;
+};
+
+export const recordEvent = (rec: LevelRecording, event: ReplayEvent) => {
+  rec.events.push(event);
+};
+
+// --- PLAYBACK ---
+const IDLE: InputFrame = { move: { x: 0, y: 0 }, interact: false, drop: false, heat: 0 };
+
+// The last change at or before `step` in one player's log
+const heldAt = (log: InputChange[], step: number): InputFrame => {
+  let lo = 0;
+  let hi = log.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (log[mid].step <= step) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  if (found < 0) return IDLE;
+  const { move, interact, drop, heat } = log[found];
+  return { move, interact, drop, heat };
+};
+
+/** Each player's input held during `step`. Idle once the recording ends. */
+export const inputAt = (rec: LevelRecording, step: number): InputFrame[] =>
+  rec.inputs.map(log => (step >= rec.steps ? IDLE : heldAt(log, step)));
+
+export const stepToMs = (step: number) => Math.round(step * STEP * 1000);
+
+// --- FILES ---
+export class ReplayFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayFormatError';
+  }
+}
+
+/** Checks an imported replay file just enough to play it back, re-validating every embedded level. */
+export const parseRunRecording = (raw: unknown): RunRecording => {
+  if (typeof raw !== 'object' || raw === null) throw new ReplayFormatError('replay must be an object');
+  const data = raw as Partial<RunRecording>;
+  if (data.version !== REPLAY_VERSION) throw new ReplayFormatError(`unsupported replay version ${data.version}`);
+  if (data.stepMs !== STEP * 1000) throw new ReplayFormatError('replay was recorded with a different step size');
+  if (!Array.isArray(data.attempts) || data.attempts.length === 0) throw new ReplayFormatError('replay has no attempts');
+
+  const attempts = data.attempts.map((a, i) => {
+    if (!Array.isArray(a?.inputs) || !a.inputs.every(Array.isArray) || !Array.isArray(a?.events) || typeof a?.steps !== 'number') {
+      throw new ReplayFormatError(`attempts[${i}] is missing its inputs, events or step count`);
+    }
+    const level = validateLevel(a.level);
+    if (a.inputs.length !== playerCount(level)) throw new ReplayFormatError(`attempts[${i}] has inputs for ${a.inputs.length} players`);
+    return { ...a, level };
+  });
+  return { ...data, attempts } as RunRecording;
+};
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createSave, loadSave, migrateSave, recordLevelReached, recordLevelTime, DEFAULT_AUDIO, SAVE_KEY, SAVE_VERSION } from './save';
+import { LEVELS } from '../levels/manifest';
+
+const stored = (value: string | null) => vi.stubGlobal('localStorage', { getItem: (key: string) => (key === SAVE_KEY ? value : null) });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('migrateSave', () => {
+  it('brings a v1 save up to date, keeping its progress', () => {
+    const save = migrateSave({ version: 1, furthestLevel: 3, bestTimes: { level1: 42_000 }, settings: { reducedMotion: true } });
+    expect(save).toEqual({
+      version: SAVE_VERSION,
+      furthestLevel: 3,
+      bestTimes: { level1: 42_000 },
+      settings: { reducedMotion: true, audio: DEFAULT_AUDIO, locale: createSave().settings.locale },
+    });
+  });
+
+  it('keeps a v2 save\'s volumes', () => {
+    const audio = { master: 0.3, music: 0, sfx: 1, muted: true };
+    expect(migrateSave({ version: 2, furthestLevel: 2, bestTimes: {}, settings: { reducedMotion: false, audio } }).settings.audio).toEqual(audio);
+  });
+
+  it('reads back a current save unchanged', () => {
+    const save = recordLevelTime(recordLevelReached(createSave(), 2), 'level1', 30_500);
+    expect(migrateSave(JSON.parse(JSON.stringify(save)))).toEqual(save);
+  });
+
+  it.each([
+    ['nothing', undefined],
+    ['not an object', 'level 3'],
+    ['an array', [1, 2, 3]],
+    ['no version', { furthestLevel: 3 }],
+    ['a newer version', { version: SAVE_VERSION + 1, furthestLevel: 3 }],
+    ['an unknown old version', { version: 0, furthestLevel: 3 }],
+  ])('starts over from %s', (_, raw) => {
+    expect(migrateSave(raw)).toEqual(createSave());
+  });
+
+  it('fills in what a partial save is missing', () => {
+    expect(migrateSave({ version: SAVE_VERSION, furthestLevel: 2 })).toEqual({ ...createSave(), furthestLevel: 2 });
+    expect(migrateSave({ version: SAVE_VERSION, settings: { audio: { master: 0.2 } } }).settings.audio).toEqual({ ...DEFAULT_AUDIO, master: 0.2 });
+  });
+
+  it('drops settings that make no sense', () => {
+    const { settings } = migrateSave({
+      version: SAVE_VERSION,
+      settings: { reducedMotion: 'yes', audio: { master: 2, music: -0.5, sfx: '1', muted: 0 }, locale: 'klingon' },
+    });
+    expect(settings).toEqual(createSave().settings);
+  });
+
+  it.each([0, -1, 2.5, LEVELS.length + 2, '2', null])('drops the out-of-range level %j', furthestLevel => {
+    expect(migrateSave({ version: SAVE_VERSION, furthestLevel }).furthestLevel).toBe(1);
+  });
+
+  it('keeps heaven, one past the last level', () => {
+    expect(migrateSave({ version: SAVE_VERSION, furthestLevel: LEVELS.length + 1 }).furthestLevel).toBe(LEVELS.length + 1);
+  });
+
+  it('drops best times that are negative, zero or not numbers', () => {
+    const bestTimes = { level1: 42_000, level2: -5, level3: 0, level4: '9000', level5: null };
+    expect(migrateSave({ version: SAVE_VERSION, bestTimes }).bestTimes).toEqual({ level1: 42_000 });
+  });
+});
+
+describe('loadSave', () => {
+  it('reads the stored save', () => {
+    stored(JSON.stringify({ version: SAVE_VERSION, furthestLevel: 3 }));
+    expect(loadSave().furthestLevel).toBe(3);
+  });
+
+  it.each([
+    ['nothing stored', null],
+    ['corrupt JSON', '{"version":3,"furthestLev'],
+    ['JSON null', 'null'],
+  ])('falls back to the defaults with %s', (_, value) => {
+    stored(value);
+    expect(loadSave()).toEqual(createSave());
+  });
+
+  it('falls back to the defaults when storage is disabled', () => {
+    vi.stubGlobal('localStorage', { getItem: () => { throw new Error('SecurityError'); } });
+    expect(loadSave()).toEqual(createSave());
+  });
+});
+
+describe('records', () => {
+  it('only move forward', () => {
+    const save = recordLevelReached(createSave(), 3);
+    expect(recordLevelReached(save, 2)).toBe(save);
+    expect(recordLevelTime(recordLevelTime(save, 'level1', 40_000), 'level1', 50_000).bestTimes).toEqual({ level1: 40_000 });
+  });
+});
@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import { detectLocale, isLocale, type Locale } from '../i18n';
+import { LEVELS } from '../levels/manifest';
+
+// --- SAVE SCHEMA ---
+export const SAVE_KEY = 'hells-kitchen-save';
+export const SAVE_VERSION = 3;
+
+// Volumes are 0..1; `muted` silences everything without losing the levels
+export type AudioSettings = {
+  master: number;
+  music: number;
+  sfx: number;
+  muted: boolean;
+};
+
+export type Settings = {
+  reducedMotion: boolean;
+  audio: AudioSettings;
+  locale: Locale;
+};
+
+export const DEFAULT_AUDIO: AudioSettings = { master: 0.8, music: 0.5, sfx: 0.8, muted: false };
+
+export type SaveData = {
+  version: number;
+  // Highest level number (1-based) the player has reached
+  furthestLevel: number;
+  // Fastest completion per level id, in milliseconds
+  bestTimes: Record<string, number>;
+  settings: Settings;
+};
+
+export const createSave = (): SaveData => ({
+  version: SAVE_VERSION,
+  furthestLevel: 1,
+  bestTimes: {},
+  settings: { reducedMotion: false, audio: { ...DEFAULT_AUDIO }, locale: detectLocale() },
+});
+
+// A save as read back from storage, before it is known to match SaveData
+type RawSave = Record<string, unknown> & { version: number };
+
+const fieldsOf = (value: unknown): Record<string, unknown> =>
+  (typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {});
+
+// Each entry upgrades a save from version `n` to `n + 1`. Add one whenever SAVE_VERSION is bumped.
+const MIGRATIONS: Record<number, (old: RawSave) => Record<string, unknown>> = {
+  // v2 added volume settings
+  1: old => ({ ...old, settings: { ...fieldsOf(old.settings), audio: { ...DEFAULT_AUDIO } } }),
+  // v3 added the language
+  2: old => ({ ...old, settings: { ...fieldsOf(old.settings), locale: detectLocale() } }),
+};
+
+const isVolume = (v: unknown): v is number => typeof v === 'number' && v >= 0 && v <= 1;
+
+// One past the last level is heaven, which a finished game has reached
+const isLevelNumber = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 1 && (v as number) <= LEVELS.length + 1;
+
+const isTime = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v) && v > 0;
+
+// Keeps the stored settings that make sense and takes the defaults for the rest
+const readSettings = (raw: unknown, fresh: Settings): Settings => {
+  const stored = fieldsOf(raw);
+  const audio = fieldsOf(stored.audio);
+  return {
+    reducedMotion: typeof stored.reducedMotion === 'boolean' ? stored.reducedMotion : fresh.reducedMotion,
+    audio: {
+      master: isVolume(audio.master) ? audio.master : fresh.audio.master,
+      music: isVolume(audio.music) ? audio.music : fresh.audio.music,
+      sfx: isVolume(audio.sfx) ? audio.sfx : fresh.audio.sfx,
+      muted: typeof audio.muted === 'boolean' ? audio.muted : fresh.audio.muted,
+    },
+    locale: isLocale(stored.locale) ? stored.locale : fresh.locale,
+  };
+};
+
+export const migrateSave = (raw: unknown): SaveData => {
+  const stored = fieldsOf(raw);
+  if (typeof stored.version !== 'number') return createSave();
+
+  let data: RawSave = { ...stored, version: stored.version };
+  // A save written by a newer build can't be understood; start over rather than corrupt it further
+  if (data.version > SAVE_VERSION) return createSave();
+  while (data.version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[data.version];
+    if (!migrate) return createSave();
+    data = { ...migrate(data), version: data.version + 1 };
+  }
+
+  // Fill in anything missing from a partially written or hand-edited save
+  const fresh = createSave();
+  return {
+    version: SAVE_VERSION,
+    furthestLevel: isLevelNumber(data.furthestLevel) ? data.furthestLevel : fresh.furthestLevel,
+    bestTimes: Object.fromEntries(Object.entries(fieldsOf(data.bestTimes)).filter((entry): entry is [string, number] => isTime(entry[1]))),
+    settings: readSettings(data.settings, fresh.settings),
+  };
+};
+
+export const loadSave = (): SaveData => {
+  try {
+    const stored = localStorage.getItem(SAVE_KEY);
+    return stored ? migrateSave(JSON.parse(stored)) : createSave();
+  } catch {
+    return createSave();
+  }
+};
+
+export const writeSave = (data: SaveData) => {
+  try {
+    localStorage.setItem(SAVE_KEY, JSON.stringify(data));
+  } catch {
+    // Storage full or disabled (private mode): progress just won't persist
+  }
+};
+
+// --- UPDATES ---
+export const recordLevelReached = (save: SaveData, levelNumber: number): SaveData =>
+  levelNumber > save.furthestLevel ? { ...save, furthestLevel: levelNumber } : save;
+
+export const recordLevelTime = (save: SaveData, levelId: string, ms: number): SaveData => {
+  const best = save.bestTimes[levelId];
+  return best === undefined || ms < best ? { ...save, bestTimes: { ...save.bestTimes, [levelId]: ms } } : save;
+};
+
+export const useSave = () => {
+  const [save, setSave] = useState<SaveData>(loadSave);
+
+  useEffect(() => {
+    writeSave(save);
+  }, [save]);
+
+  return [save, setSave] as const;
+};
@@ -0,0 +1,33 @@
+// Shared by the client (live display) and server/leaderboardRoutes.ts (the authoritative score)
+
+export type LevelStats = {
+  // Rejected ingredient answers at a riddle door
+  wrongAnswers: number;
+  // Separate drags it took to fill a cauldron
+  stirStrokes: number;
+};
+
+export type RunResult = LevelStats & {
+  // Completion time per level id, in milliseconds
+  splits: Record<string, number>;
+};
+
+export const emptyStats = (): LevelStats => ({ wrongAnswers: 0, stirStrokes: 0 });
+
+export const BASE_SCORE = 10000;
+export const POINTS_PER_SECOND = 20;
+export const WRONG_ANSWER_PENALTY = 500;
+export const EXTRA_STROKE_PENALTY = 100;
+
+export const totalTime = (splits: Record<string, number>) =>
+  Object.values(splits).reduce((sum, ms) => sum + ms, 0);
+
+export const computeScore = (run: RunResult) => {
+  const seconds = totalTime(run.splits) / 1000;
+  const penalty =
+    seconds * POINTS_PER_SECOND +
+    run.wrongAnswers * WRONG_ANSWER_PENALTY +
+    // One long stroke is a perfect stir
+    Math.max(0, run.stirStrokes - 1) * EXTRA_STROKE_PENALTY;
+  return Math.max(0, Math.round(BASE_SCORE - penalty));
+};
@@ -0,0 +1,118 @@
+import type { StirDirection } from '../levels/schema';
+
+const TAU = Math.PI * 2;
+// Progress for one clean turn of the spoon the right way round
+export const POINTS_PER_TURN = 20;
+// Faster than two turns a second and the soup slops over the rim
+const SPLASH_SPEED = 2 * TAU;
+const SPLASH_PENALTY = 8;
+// Seconds after a splash before stirring counts again
+const SPLASH_TIME = 0.6;
+// Turning the wrong way unwinds progress at this fraction of the rate
+const WRONG_WAY_FACTOR = 0.5;
+// Seconds of stillness before the soup starts to settle, and how fast it settles
+const IDLE_GRACE = 0.75;
+const DECAY_RATE = 6;
+// A steady rhythm earns up to RHYTHM_BONUS extra once it has lasted RHYTHM_FULL seconds
+const RHYTHM_FULL = 3;
+const RHYTHM_BONUS = 0.5;
+// Pointer moves don't land on every step, so speed is smoothed over a few
+const SPEED_SMOOTHING = 0.3;
+// Radians per second the keys turn the spoon; one comfortable turn a second
+export const KEY_TURN_SPEED = TAU;
+
+// One player's spoon
+export type SpoonState = {
+  // Angle around the pot centre, clockwise from east in radians
+  angle: number;
+  // Pointer angle at the last move of the current drag; null between drags
+  grip: number | null;
+  // Angle turned since the last step, positive clockwise
+  swept: number;
+  // Smoothed turning speed in radians per second
+  speed: number;
+  // Seconds since the spoon last moved
+  idle: number;
+  // Seconds of unbroken stirring the right way
+  streak: number;
+  // Seconds left of the splash cooldown
+  splash: number;
+};
+
+// The pot fills from every spoon in it; in co-op both players can stir at once
+export type StirState = {
+  progress: number;
+  spoons: SpoonState[];
+};
+
+const createSpoon = (angle: number): SpoonState => ({ angle, grip: null, swept: 0, speed: 0, idle: 0, streak: 0, splash: 0 });
+
+// Co-op spoons start on opposite sides of the pot
+export const createStir = (players = 1): StirState =>
+  ({ progress: 0, spoons: Array.from({ length: players }, (_, i) => createSpoon(i * Math.PI)) });
+
+const withSpoon = (stir: StirState, player: number, change: (spoon: SpoonState) => SpoonState): StirState =>
+  ({ ...stir, spoons: stir.spoons.map((s, i) => (i === player ? change(s) : s)) });
+
+// Smallest signed difference between two angles
+const turnBetween = (from: number, to: number) => {
+  const d = (to - from) % TAU;
+  if (d > Math.PI) return d - TAU;
+  if (d <= -Math.PI) return d + TAU;
+  return d;
+};
+
+/** A new drag grabs `player`'s spoon where the pointer is, without counting the jump from the last drag. */
+export const startStroke = (stir: StirState, player: number, angle: number): StirState =>
+  withSpoon(stir, player, s => ({ ...s, grip: angle, angle }));
+
+export const moveSpoon = (stir: StirState, player: number, angle: number): StirState =>
+  withSpoon(stir, player, s => (s.grip === null
+    ? { ...s, grip: angle, angle }
+    : { ...s, grip: angle, angle, swept: s.swept + turnBetween(s.grip, angle) }));
+
+// Keyboard and gamepad stirring: turn by `delta` radians, positive clockwise
+export const turnSpoon = (stir: StirState, player: number, delta: number): StirState =>
+  withSpoon(stir, player, s => ({ ...s, angle: s.angle + delta, swept: s.swept + delta }));
+
+// One spoon's turning since the last step, as progress gained or lost
+const stepSpoon = (spoon: SpoonState, direction: StirDirection, dt: number) => {
+  const along = spoon.swept * (direction === 'ccw' ? -1 : 1);
+  const speed = spoon.speed + (Math.abs(spoon.swept) / dt - spoon.speed) * SPEED_SMOOTHING;
+  let { streak } = spoon;
+  let splash = Math.max(0, spoon.splash - dt);
+  const idle = spoon.swept === 0 ? spoon.idle + dt : 0;
+  let splashed = false;
+  let delta = 0;
+
+  if (speed > SPLASH_SPEED && splash === 0 && spoon.swept !== 0) {
+    splashed = true;
+    splash = SPLASH_TIME;
+    streak = 0;
+    delta = -SPLASH_PENALTY;
+  } else if (along > 0 && splash === 0) {
+    streak += dt;
+    delta = along / TAU * POINTS_PER_TURN * (1 + Math.min(streak, RHYTHM_FULL) / RHYTHM_FULL * RHYTHM_BONUS);
+  } else if (along < 0) {
+    streak = 0;
+    delta = along / TAU * POINTS_PER_TURN * WRONG_WAY_FACTOR;
+  }
+  if (idle > IDLE_GRACE) streak = 0;
+
+  return { spoon: { ...spoon, swept: 0, speed, idle, streak, splash }, delta, splashed };
+};
+
+/**
+ * Scores the turning done since the last step: the right way round adds progress (more with a steady
+ * rhythm), the wrong way takes some back, too fast splashes, and leaving the pot alone lets it settle.
+ * Every spoon counts, so two players fill the pot about twice as fast.
+ */
+export const stepStir = (stir: StirState, direction: StirDirection, dt: number) => {
+  const stepped = stir.spoons.map(s => stepSpoon(s, direction, dt));
+  let progress = stir.progress + stepped.reduce((sum, s) => sum + s.delta, 0);
+  // The pot only settles once nobody is stirring it
+  if (stepped.every(s => s.spoon.idle > IDLE_GRACE)) progress -= DECAY_RATE * dt;
+
+  const state: StirState = { progress: Math.max(0, progress), spoons: stepped.map(s => s.spoon) };
+  return { state, splashed: stepped.some(s => s.splashed), gained: state.progress > stir.progress };
+};
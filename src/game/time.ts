@@ -0,0 +1,7 @@
+// 83456 -> "1:23.4"
+export const formatTime = (ms: number) => {
+  const totalTenths = Math.floor(ms / 100);
+  const minutes = Math.floor(totalTenths / 600);
+  const seconds = Math.floor(totalTenths / 10) % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}.${totalTenths % 10}`;
+};
@@ -0,0 +1,200 @@
+import type { Catalogue } from './index';
+
+export const ar: Catalogue = {
+  // --- START ---
+  'start.title': 'مطبخ\nالجحيم',
+  'start.tagline': 'اهرب من العالم السفلي بالطبخ!',
+  'start.continue': 'متابعة',
+  'start.newGame': 'لعبة جديدة',
+  'start.play': 'العب',
+  'start.best': 'أفضل الأوقات: {times}',
+  'start.editor': 'محرر المراحل',
+  'start.leaderboard': 'لوحة الصدارة',
+  'start.replay': 'الإعادة',
+  'start.settings': 'الإعدادات',
+  'start.solo': 'لاعب واحد',
+  'start.coop': 'لاعبان',
+  'start.joinEvent': 'انضم إلى فعالية',
+  'start.inEvent': 'الفعالية {code}',
+  'start.leaveEvent': 'مغادرة',
+
+  // --- HUD ---
+  'hud.saveReplay': 'حفظ الإعادة',
+  'hud.mute': 'كتم الصوت',
+  'hud.unmute': 'تشغيل الصوت',
+
+  // --- WIN ---
+  'win.title': 'فطور\nسعيد',
+  'win.subtitle': 'لقد صعدت إلى الجنة!',
+  'win.stats': 'الوقت {time} · النقاط {score}',
+  'win.unranked': 'ابدأ لعبة جديدة لتدخل لوحة الصدارة.',
+  'win.coopUnranked': 'جولات اللعب الجماعي لا تدخل الترتيب.',
+  'win.playAgain': 'العب مجددًا',
+  'win.leaderboard': 'لوحة الصدارة',
+  'win.saveReplay': 'حفظ الإعادة',
+  'score.placeholder': 'اسمك',
+  'score.submit': 'إرسال',
+  'score.unreachable': 'تعذّر الوصول إلى لوحة الصدارة',
+  'score.rank': {
+    zero: 'المركز #{rank} بلا نقاط!',
+    one: 'المركز #{rank} بنقطة واحدة!',
+    two: 'المركز #{rank} بنقطتين!',
+    few: 'المركز #{rank} بـ {count} نقاط!',
+    many: 'المركز #{rank} بـ {count} نقطة!',
+    other: 'المركز #{rank} بـ {count} نقطة!',
+  },
+
+  // --- SETTINGS ---
+  'settings.title': 'الإعدادات',
+  'settings.master': 'الصوت العام',
+  'settings.music': 'الموسيقى',
+  'settings.effects': 'المؤثرات',
+  'settings.mute': 'كتم كل الأصوات',
+  'settings.reduceMotion': 'تقليل الحركة',
+  'settings.language': 'اللغة',
+  'settings.back': 'رجوع',
+
+  // --- LEADERBOARD ---
+  'board.title': 'لوحة الصدارة',
+  'board.overall': 'كل الأوقات',
+  'board.levels': 'حسب المرحلة',
+  'board.daily': 'اليوم',
+  'board.name': 'الاسم',
+  'board.time': 'الوقت',
+  'board.score': 'النقاط',
+  'board.noTimes': 'لا أوقات بعد',
+  'board.unavailable': 'لوحة الصدارة غير متاحة',
+  'board.loading': 'جارٍ التحميل...',
+  'board.empty': 'لا جولات بعد. كن الأول!',
+  'board.back': 'رجوع',
+
+  // --- EVENTS ---
+  'event.title': 'انضم إلى فعالية',
+  'event.code': 'رمز الجلسة',
+  'event.name': 'اسمك',
+  'event.join': 'انضمام',
+  'event.back': 'رجوع',
+  'event.unknownCode': 'لا توجد جلسة بهذا الرمز',
+  'event.unreachable': 'تعذّر الوصول إلى الخادم',
+  'event.paused': 'أوقف المنظّم اللعبة مؤقتًا',
+  'event.locked': 'بانتظار أن يفتح المنظّم المرحلة {level}',
+
+  // --- PLAYING ---
+  'play.use': 'استخدم',
+  'play.drop': 'أسقط',
+  'play.stirKeys': 'اضغط {use} مع {turn} أو اسحب: قلّب',
+  'play.p1.use': 'Enter',
+  'play.p2.turn': 'A/D',
+  'play.stirTouch': 'اضغط استخدم مع العصا أو اسحب: قلّب',
+  'play.splash': 'انسكب! ببطء أكثر!',
+  'play.gameOver': 'انتهت اللعبة',
+  'play.gameOverText': 'العالم السفلي يأخذ طباخًا آخر...',
+  'play.tryAgain': 'حاول مجددًا',
+
+  'riddle.thinking': 'الباب يفكر...',
+  'riddle.empty': 'اذكر بعض المكونات أولًا!',
+  'riddle.unreachable': 'الباب صامت... (الخادم غير متاح)',
+  'riddle.sealed': 'أُغلق الباب! عودة إلى البداية...',
+  'riddle.placeholder': 'المكونات...',
+  'riddle.submit': 'إرسال',
+  'riddle.solved': '{correct} من {total} صحيحة!',
+  'riddle.feedback': {
+    zero: '{correct} من {total} صحيحة. لم تبقَ محاولات.',
+    one: '{correct} من {total} صحيحة. بقيت محاولة واحدة.',
+    two: '{correct} من {total} صحيحة. بقيت محاولتان.',
+    few: '{correct} من {total} صحيحة. بقيت {count} محاولات.',
+    many: '{correct} من {total} صحيحة. بقيت {count} محاولة.',
+    other: '{correct} من {total} صحيحة. بقيت {count} محاولة.',
+  },
+  'riddle.left': {
+    zero: 'لم تبقَ محاولات.',
+    one: 'بقيت محاولة واحدة.',
+    two: 'بقيت محاولتان.',
+    few: 'بقيت {count} محاولات.',
+    many: 'بقيت {count} محاولة.',
+    other: 'بقيت {count} محاولة.',
+  },
+  'riddle.hint': 'تلميح {n}: {hint}',
+
+  'clue.loading': 'جارٍ التحميل...',
+  'clue.unknown': 'لا يوجد لغز بهذا الاسم',
+  'clue.unreachable': 'الأرواح صامتة (تعذّر الوصول إلى الخادم)',
+  'clue.intro': {
+    one: 'حُلّ اللغز لتجد المكوّن:',
+    two: 'حُلّ كل لغز لتجد المكوّنين:',
+    few: 'حُلّ كل لغز لتجد المكوّنات الـ{count}:',
+    other: 'حُلّ كل لغز لتجد المكوّنات الـ{count}:',
+  },
+  'clue.hidden': {
+    one: 'أخفى مضيفك مكوّنًا في أرجاء القاعة. جِده!',
+    two: 'أخفى مضيفك مكوّنين في أرجاء القاعة. جِدهما!',
+    few: 'أخفى مضيفك {count} مكوّنات في أرجاء القاعة. جِدها!',
+    other: 'أخفى مضيفك {count} مكوّنًا في أرجاء القاعة. جِدها!',
+  },
+  'clue.tries': {
+    one: 'ثم سمِّها كلها عند الباب. لديك محاولة واحدة.',
+    two: 'ثم سمِّها كلها عند الباب. لديك محاولتان.',
+    few: 'ثم سمِّها كلها عند الباب. لديك {count} محاولات.',
+    other: 'ثم سمِّها كلها عند الباب. لديك {count} محاولة.',
+  },
+
+  'cook.heat': 'النار: {heat}',
+  'cook.heat.0': 'مطفأة',
+  'cook.heat.1': 'هادئة',
+  'cook.heat.2': 'متوسطة',
+  'cook.heat.3': 'قوية',
+  'cook.burnt': 'احترق الطبق!',
+  'cook.ruined': 'مكوّن خاطئ! فسد الطبق!',
+  'cook.raw': 'ما زال نيئًا! الشياطين ترفضه!',
+
+  'item.pot': 'القدر',
+  'item.spoon': 'الملعقة',
+  'item.tomato': 'طماطم',
+  'item.onion': 'بصل',
+  'item.garlic': 'ثوم',
+  'item.basil': 'ريحان',
+  'item.stove': 'الموقد',
+  'item.door': 'الباب',
+
+  'prompt.pick up pot': 'خذ القدر',
+  'prompt.pick up spoon': 'خذ الملعقة',
+  'prompt.pick up tomato': 'خذ الطماطم',
+  'prompt.pick up onion': 'خذ البصل',
+  'prompt.pick up garlic': 'خذ الثوم',
+  'prompt.pick up basil': 'خذ الريحان',
+  'prompt.place pot on stove': 'ضع القدر على الموقد',
+  'prompt.knock on the door': 'اطرق الباب',
+  'prompt.add tomato': 'أضف الطماطم',
+  'prompt.add onion': 'أضف البصل',
+  'prompt.add garlic': 'أضف الثوم',
+  'prompt.add basil': 'أضف الريحان',
+  'prompt.serve the dish': 'قدّم الطبق',
+  'prompt.light the stove': 'أشعل الموقد',
+
+  // --- LEVELS ---
+  'level.level1.title': 'المرحلة 1',
+  'level.level1.instructions.0': 'الأسهم / WASD للتحرك.',
+  'level.level1.instructions.1': '1. ضع القدر على الموقد ← 2. أضف الطماطم ثم البصل ← 3. قدّم الطبق حين يكون المؤشر في الأخضر! (E / استخدم، Q للإسقاط)',
+  'level.level1.instructions.2': 'Z / X لخفض النار ورفعها. إن اشتدت النار احترق الطبق!',
+  'level.level1.recipe': 'حساء طماطم الشيطان',
+  'level.level2.title': 'المرحلة 2',
+  'level.level2.instructions.0': 'اعبر المتاهة واطرق الباب (E / استخدم).',
+  'level.level2.prompt': 'امسح الرمز لتجد المكونات، ثم اذكرها كلها.',
+  'level.level3.title': 'المرحلة 3',
+  'level.level3.instructions.0': '1. E / استخدم: خذ الملعقة ← 2. قف بجانب القدر ← 3. قلّب مع عقارب الساعة، بثبات ودون سرعة!',
+  'level.level3.instructions.1': 'ارسم دوائر على القدر، أو اضغط E / المسافة مع → (و← للعكس). إن توقفت هدأ الحساء.',
+  'level.level3.label.soup': 'حساء الطماطم',
+  'level.level1-coop.title': 'المرحلة 1 جماعي',
+  'level.level1-coop.instructions.0': 'اللاعب 1: الأسهم، Enter للاستخدام، Shift الأيمن للإسقاط. اللاعب 2: WASD، E للاستخدام، Q للإسقاط.',
+  'level.level1-coop.instructions.1': '1. يمسك أحدكما القدر عند الموقد بينما يشعله الآخر ← 2. أضيفا الطماطم ثم البصل ← 3. قدّما الطبق في المنطقة الخضراء!',
+  'level.level1-coop.instructions.2': 'النار: . و / (اللاعب 1) أو Z و X (اللاعب 2). الحرارة الزائدة تحرق الطبق!',
+  'level.level1-coop.recipe': 'حساء طماطم الشيطان',
+  'level.level2-coop.title': 'المرحلة 2 جماعي',
+  'level.level2-coop.instructions.0': 'اذهبا معًا إلى الباب: يطرق أحدكما ويدخل ليجيب، ويقف الآخر حارسًا.',
+  'level.level2-coop.instructions.1': 'يبقى الحارس قرب الباب ويتفادى الشيطان بالأسهم حتى أثناء الكتابة. أي ضربة تغلق الباب!',
+  'level.level2-coop.prompt': 'امسح الرمز لتجد المكونات، ثم اذكرها كلها.',
+  'level.level3-coop.title': 'المرحلة 3 جماعي',
+  'level.level3-coop.instructions.0': '1. يأخذ كل منكما ملعقة ← 2. قفا بجانب القدر الكبير ← 3. قلّبا معًا باتجاه عقارب الساعة، بثبات ودون سرعة زائدة!',
+  'level.level3-coop.instructions.1': 'اللاعب 1: اضغط Enter مع →. اللاعب 2: اضغط E مع D. أو ارسما دوائر على القدر. ملعقتان تملآنه بضعف السرعة.',
+  'level.level3-coop.label.soup': 'حساء الطماطم الكبير',
+};
@@ -0,0 +1,182 @@
+// The source catalogue: every key the game uses, and the fallback for anything a locale leaves out.
+// `{name}` is filled in from the params; an object picks a plural form by the `count` param.
+export const en = {
+  // --- START ---
+  'start.title': "HELL'S\nKITCHEN",
+  'start.tagline': 'Escape the underworld through cooking!',
+  'start.continue': 'CONTINUE',
+  'start.newGame': 'NEW GAME',
+  'start.play': 'PLAY',
+  'start.best': 'BEST: {times}',
+  'start.editor': 'LEVEL EDITOR',
+  'start.leaderboard': 'LEADERBOARD',
+  'start.replay': 'REPLAY',
+  'start.settings': 'SETTINGS',
+  'start.solo': '1 PLAYER',
+  'start.coop': '2 PLAYERS',
+  'start.joinEvent': 'JOIN EVENT',
+  'start.inEvent': 'EVENT {code}',
+  'start.leaveEvent': 'LEAVE',
+
+  // --- HUD ---
+  'hud.saveReplay': 'SAVE REPLAY',
+  'hud.mute': 'Mute',
+  'hud.unmute': 'Unmute',
+
+  // --- WIN ---
+  'win.title': 'HAPPY\nFTOUR',
+  'win.subtitle': 'You have ascended to Heaven!',
+  'win.stats': 'TIME {time} · SCORE {score}',
+  'win.unranked': 'Start a NEW GAME to post a ranked run.',
+  'win.coopUnranked': 'Co-op runs are not ranked.',
+  'win.playAgain': 'PLAY AGAIN',
+  'win.leaderboard': 'LEADERBOARD',
+  'win.saveReplay': 'SAVE REPLAY',
+  'score.placeholder': 'YOUR NAME',
+  'score.submit': 'SUBMIT',
+  'score.unreachable': 'COULD NOT REACH THE LEADERBOARD',
+  'score.rank': { one: 'RANK #{rank} WITH {count} POINT!', other: 'RANK #{rank} WITH {count} POINTS!' },
+
+  // --- SETTINGS ---
+  'settings.title': 'SETTINGS',
+  'settings.master': 'MASTER',
+  'settings.music': 'MUSIC',
+  'settings.effects': 'EFFECTS',
+  'settings.mute': 'MUTE ALL SOUND',
+  'settings.reduceMotion': 'REDUCE MOTION',
+  'settings.language': 'LANGUAGE',
+  'settings.back': 'BACK',
+
+  // --- LEADERBOARD ---
+  'board.title': 'LEADERBOARD',
+  'board.overall': 'ALL TIME',
+  'board.levels': 'LEVEL SPLITS',
+  'board.daily': 'TODAY',
+  'board.name': 'NAME',
+  'board.time': 'TIME',
+  'board.score': 'SCORE',
+  'board.noTimes': 'NO TIMES YET',
+  'board.unavailable': 'LEADERBOARD UNAVAILABLE',
+  'board.loading': 'LOADING...',
+  'board.empty': 'NO RUNS YET. BE THE FIRST!',
+  'board.back': 'BACK',
+
+  // --- EVENTS ---
+  'event.title': 'JOIN AN EVENT',
+  'event.code': 'SESSION CODE',
+  'event.name': 'YOUR NAME',
+  'event.join': 'JOIN',
+  'event.back': 'BACK',
+  'event.unknownCode': 'NO SESSION WITH THAT CODE',
+  'event.unreachable': 'SERVER UNREACHABLE',
+  'event.paused': 'PAUSED BY THE HOST',
+  'event.locked': 'WAITING FOR THE HOST TO OPEN LEVEL {level}',
+
+  // --- PLAYING ---
+  'play.use': 'USE',
+  'play.drop': 'DROP',
+  'play.stirKeys': 'HOLD {use} + {turn} or drag: stir',
+  // Co-op key names: player one's interact key and player two's turning keys
+  'play.p1.use': 'ENTER',
+  'play.p2.turn': 'A/D',
+  'play.stirTouch': 'HOLD USE + STICK or drag: stir',
+  'play.splash': 'SPLASH! TOO FAST!',
+  'play.gameOver': 'GAME OVER',
+  'play.gameOverText': 'The underworld claims another cook...',
+  'play.tryAgain': 'TRY AGAIN',
+
+  'riddle.thinking': 'THE DOOR IS THINKING...',
+  'riddle.empty': 'NAME SOME INGREDIENTS FIRST!',
+  'riddle.unreachable': 'THE DOOR IS SILENT... (SERVER UNREACHABLE)',
+  'riddle.sealed': 'THE DOOR SEALS SHUT! BACK TO THE START...',
+  'riddle.placeholder': 'INGREDIENTS...',
+  'riddle.submit': 'SUBMIT',
+  'riddle.solved': '{correct} OF {total} CORRECT!',
+  'riddle.feedback': {
+    one: '{correct} OF {total} CORRECT. {count} ATTEMPT LEFT.',
+    other: '{correct} OF {total} CORRECT. {count} ATTEMPTS LEFT.',
+  },
+  'riddle.left': {
+    one: '{count} ATTEMPT LEFT.',
+    other: '{count} ATTEMPTS LEFT.',
+  },
+  'riddle.hint': 'HINT {n}: {hint}',
+
+  'clue.loading': 'LOADING...',
+  'clue.unknown': 'NO SUCH RIDDLE',
+  'clue.unreachable': 'THE SPIRITS ARE SILENT (SERVER UNREACHABLE)',
+  'clue.intro': {
+    one: 'Solve the riddle to find the ingredient:',
+    other: 'Solve each riddle to find the {count} ingredients:',
+  },
+  'clue.hidden': {
+    one: 'Your host has hidden an ingredient around the room. Find it!',
+    other: 'Your host has hidden {count} ingredients around the room. Find them!',
+  },
+  'clue.tries': {
+    one: 'Then name them all at the door. You have {count} try.',
+    other: 'Then name them all at the door. You have {count} tries.',
+  },
+
+  'cook.heat': 'HEAT: {heat}',
+  'cook.heat.0': 'OFF',
+  'cook.heat.1': 'LOW',
+  'cook.heat.2': 'MEDIUM',
+  'cook.heat.3': 'HIGH',
+  'cook.burnt': 'THE DISH IS BURNT!',
+  'cook.ruined': 'WRONG INGREDIENT! THE DISH IS RUINED!',
+  'cook.raw': 'STILL RAW! THE DEVILS SEND IT BACK!',
+
+  'item.pot': 'POT',
+  'item.spoon': 'SPOON',
+  'item.tomato': 'TOMATO',
+  'item.onion': 'ONION',
+  'item.garlic': 'GARLIC',
+  'item.basil': 'BASIL',
+  'item.stove': 'STOVE',
+  'item.door': 'DOOR',
+
+  // Interaction prompts are keyed by the rule's English prompt; custom ones show as written
+  'prompt.pick up pot': 'pick up pot',
+  'prompt.pick up spoon': 'pick up spoon',
+  'prompt.pick up tomato': 'pick up tomato',
+  'prompt.pick up onion': 'pick up onion',
+  'prompt.pick up garlic': 'pick up garlic',
+  'prompt.pick up basil': 'pick up basil',
+  'prompt.place pot on stove': 'place pot on stove',
+  'prompt.knock on the door': 'knock on the door',
+  'prompt.add tomato': 'add tomato',
+  'prompt.add onion': 'add onion',
+  'prompt.add garlic': 'add garlic',
+  'prompt.add basil': 'add basil',
+  'prompt.serve the dish': 'serve the dish',
+  'prompt.light the stove': 'light the stove',
+
+  // --- LEVELS ---
+  // Must match the level JSON exactly; an edited level shows its own text instead
+  'level.level1.title': 'LEVEL 1',
+  'level.level1.instructions.0': 'Arrows / WASD to move.',
+  'level.level1.instructions.1': '1. Put the Pot on the Stove → 2. Add Tomato, then Onion → 3. Serve when the meter is in the green! (E / USE, Q drops)',
+  'level.level1.instructions.2': 'Z / X turn the burner down and up. Too hot and the dish burns!',
+  'level.level1.recipe': "DEVIL'S TOMATO SOUP",
+  'level.level2.title': 'LEVEL 2',
+  'level.level2.instructions.0': 'Navigate the maze and knock on the DOOR (E / USE).',
+  'level.level2.prompt': 'Scan to find the ingredients, then name them all.',
+  'level.level3.title': 'LEVEL 3',
+  'level.level3.instructions.0': '1. E / USE: pick up the Spoon → 2. Stand by Pot → 3. Stir CLOCKWISE, steady and not too fast!',
+  'level.level3.instructions.1': 'Drag circles on the pot, or hold E / Space and press → (← turns it back). Stop and the soup settles.',
+  'level.level3.label.soup': 'TOMATO SOUP',
+  'level.level1-coop.title': 'LEVEL 1 CO-OP',
+  'level.level1-coop.instructions.0': 'Player 1: Arrows, ENTER to use, right SHIFT drops. Player 2: WASD, E to use, Q drops.',
+  'level.level1-coop.instructions.1': '1. One of you holds the Pot by the Stove while the other lights it → 2. Add Tomato, then Onion → 3. Serve in the green!',
+  'level.level1-coop.instructions.2': 'Burner: . and / (player 1) or Z and X (player 2). Too hot and the dish burns!',
+  'level.level1-coop.recipe': "DEVIL'S TOMATO SOUP",
+  'level.level2-coop.title': 'LEVEL 2 CO-OP',
+  'level.level2-coop.instructions.0': 'Go to the DOOR together: one knocks and goes in to answer, the other stands guard.',
+  'level.level2-coop.instructions.1': 'The guard stays by the door and dodges the devil with the arrows, even while the other types. Any hit slams it shut!',
+  'level.level2-coop.prompt': 'Scan to find the ingredients, then name them all.',
+  'level.level3-coop.title': 'LEVEL 3 CO-OP',
+  'level.level3-coop.instructions.0': '1. Each of you grabs a Spoon → 2. Stand by the big pot → 3. Stir CLOCKWISE together, steady and not too fast!',
+  'level.level3-coop.instructions.1': 'Player 1: hold ENTER + →. Player 2: hold E + D. Or drag circles on the pot. Two spoons fill it twice as fast.',
+  'level.level3-coop.label.soup': 'BIG TOMATO SOUP',
+};
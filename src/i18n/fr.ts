@@ -0,0 +1,179 @@
+import type { Catalogue } from './index';
+
+export const fr: Catalogue = {
+  // --- START ---
+  'start.title': 'CUISINE\nINFERNALE',
+  'start.tagline': 'Échappez aux enfers en cuisinant !',
+  'start.continue': 'CONTINUER',
+  'start.newGame': 'NOUVELLE PARTIE',
+  'start.play': 'JOUER',
+  'start.best': 'RECORDS : {times}',
+  'start.editor': 'ÉDITEUR DE NIVEAUX',
+  'start.leaderboard': 'CLASSEMENT',
+  'start.replay': 'REPLAY',
+  'start.settings': 'OPTIONS',
+  'start.solo': '1 JOUEUR',
+  'start.coop': '2 JOUEURS',
+  'start.joinEvent': 'REJOINDRE UN ÉVÉNEMENT',
+  'start.inEvent': 'ÉVÉNEMENT {code}',
+  'start.leaveEvent': 'QUITTER',
+
+  // --- HUD ---
+  'hud.saveReplay': 'SAUVER LE REPLAY',
+  'hud.mute': 'Couper le son',
+  'hud.unmute': 'Remettre le son',
+
+  // --- WIN ---
+  'win.title': 'BON\nFTOUR',
+  'win.subtitle': 'Vous êtes monté au Paradis !',
+  'win.stats': 'TEMPS {time} · SCORE {score}',
+  'win.unranked': 'Lancez une NOUVELLE PARTIE pour entrer au classement.',
+  'win.coopUnranked': 'Les parties en coop ne sont pas classées.',
+  'win.playAgain': 'REJOUER',
+  'win.leaderboard': 'CLASSEMENT',
+  'win.saveReplay': 'SAUVER LE REPLAY',
+  'score.placeholder': 'VOTRE NOM',
+  'score.submit': 'ENVOYER',
+  'score.unreachable': 'CLASSEMENT INJOIGNABLE',
+  'score.rank': { one: 'RANG #{rank} AVEC {count} POINT !', other: 'RANG #{rank} AVEC {count} POINTS !' },
+
+  // --- SETTINGS ---
+  'settings.title': 'OPTIONS',
+  'settings.master': 'GÉNÉRAL',
+  'settings.music': 'MUSIQUE',
+  'settings.effects': 'EFFETS',
+  'settings.mute': 'COUPER TOUT LE SON',
+  'settings.reduceMotion': 'RÉDUIRE LES ANIMATIONS',
+  'settings.language': 'LANGUE',
+  'settings.back': 'RETOUR',
+
+  // --- LEADERBOARD ---
+  'board.title': 'CLASSEMENT',
+  'board.overall': 'DE TOUS LES TEMPS',
+  'board.levels': 'PAR NIVEAU',
+  'board.daily': "AUJOURD'HUI",
+  'board.name': 'NOM',
+  'board.time': 'TEMPS',
+  'board.score': 'SCORE',
+  'board.noTimes': 'AUCUN TEMPS',
+  'board.unavailable': 'CLASSEMENT INDISPONIBLE',
+  'board.loading': 'CHARGEMENT...',
+  'board.empty': 'AUCUNE PARTIE. SOYEZ LE PREMIER !',
+  'board.back': 'RETOUR',
+
+  // --- EVENTS ---
+  'event.title': 'REJOINDRE UN ÉVÉNEMENT',
+  'event.code': 'CODE DE SESSION',
+  'event.name': 'VOTRE NOM',
+  'event.join': 'REJOINDRE',
+  'event.back': 'RETOUR',
+  'event.unknownCode': 'AUCUNE SESSION AVEC CE CODE',
+  'event.unreachable': 'SERVEUR INJOIGNABLE',
+  'event.paused': "PAUSE DEMANDÉE PAR L'ANIMATEUR",
+  'event.locked': "EN ATTENTE DE L'OUVERTURE DU NIVEAU {level} PAR L'ANIMATEUR",
+
+  // --- PLAYING ---
+  'play.use': 'UTILISER',
+  'play.drop': 'POSER',
+  'play.stirKeys': 'MAINTENIR {use} + {turn} ou glisser : remuer',
+  'play.p1.use': 'ENTRÉE',
+  'play.p2.turn': 'Q/D',
+  'play.stirTouch': 'MAINTENIR UTILISER + STICK ou glisser : remuer',
+  'play.splash': 'ÇA ÉCLABOUSSE ! TROP VITE !',
+  'play.gameOver': 'PERDU',
+  'play.gameOverText': 'Les enfers réclament un autre cuisinier...',
+  'play.tryAgain': 'RÉESSAYER',
+
+  'riddle.thinking': 'LA PORTE RÉFLÉCHIT...',
+  'riddle.empty': "NOMMEZ D'ABORD DES INGRÉDIENTS !",
+  'riddle.unreachable': 'LA PORTE RESTE MUETTE... (SERVEUR INJOIGNABLE)',
+  'riddle.sealed': 'LA PORTE SE SCELLE ! RETOUR AU DÉBUT...',
+  'riddle.placeholder': 'INGRÉDIENTS...',
+  'riddle.submit': 'VALIDER',
+  'riddle.solved': '{correct} SUR {total} CORRECTS !',
+  'riddle.feedback': {
+    one: '{correct} SUR {total} CORRECTS. {count} ESSAI RESTANT.',
+    other: '{correct} SUR {total} CORRECTS. {count} ESSAIS RESTANTS.',
+  },
+  'riddle.left': {
+    one: '{count} ESSAI RESTANT.',
+    other: '{count} ESSAIS RESTANTS.',
+  },
+  'riddle.hint': 'INDICE {n} : {hint}',
+
+  'clue.loading': 'CHARGEMENT...',
+  'clue.unknown': 'CETTE ÉNIGME N\'EXISTE PAS',
+  'clue.unreachable': 'LES ESPRITS SE TAISENT (SERVEUR INJOIGNABLE)',
+  'clue.intro': {
+    one: 'Résolvez l\'énigme pour trouver l\'ingrédient :',
+    other: 'Résolvez chaque énigme pour trouver les {count} ingrédients :',
+  },
+  'clue.hidden': {
+    one: 'Votre hôte a caché un ingrédient dans la salle. Trouvez-le !',
+    other: 'Votre hôte a caché {count} ingrédients dans la salle. Trouvez-les !',
+  },
+  'clue.tries': {
+    one: 'Puis nommez-les tous à la porte. Vous avez {count} essai.',
+    other: 'Puis nommez-les tous à la porte. Vous avez {count} essais.',
+  },
+
+  'cook.heat': 'FEU : {heat}',
+  'cook.heat.0': 'ÉTEINT',
+  'cook.heat.1': 'DOUX',
+  'cook.heat.2': 'MOYEN',
+  'cook.heat.3': 'VIF',
+  'cook.burnt': 'LE PLAT A BRÛLÉ !',
+  'cook.ruined': 'MAUVAIS INGRÉDIENT ! LE PLAT EST GÂCHÉ !',
+  'cook.raw': 'ENCORE CRU ! LES DÉMONS LE RENVOIENT !',
+
+  'item.pot': 'MARMITE',
+  'item.spoon': 'CUILLÈRE',
+  'item.tomato': 'TOMATE',
+  'item.onion': 'OIGNON',
+  'item.garlic': 'AIL',
+  'item.basil': 'BASILIC',
+  'item.stove': 'FOURNEAU',
+  'item.door': 'PORTE',
+
+  'prompt.pick up pot': 'prendre la marmite',
+  'prompt.pick up spoon': 'prendre la cuillère',
+  'prompt.pick up tomato': 'prendre la tomate',
+  'prompt.pick up onion': "prendre l'oignon",
+  'prompt.pick up garlic': "prendre l'ail",
+  'prompt.pick up basil': 'prendre le basilic',
+  'prompt.place pot on stove': 'poser la marmite sur le feu',
+  'prompt.knock on the door': 'frapper à la porte',
+  'prompt.add tomato': 'ajouter la tomate',
+  'prompt.add onion': "ajouter l'oignon",
+  'prompt.add garlic': "ajouter l'ail",
+  'prompt.add basil': 'ajouter le basilic',
+  'prompt.serve the dish': 'servir le plat',
+  'prompt.light the stove': 'allumer le fourneau',
+
+  // --- LEVELS ---
+  'level.level1.title': 'NIVEAU 1',
+  'level.level1.instructions.0': 'Flèches / ZQSD pour bouger.',
+  'level.level1.instructions.1': '1. Posez la marmite sur le fourneau → 2. Ajoutez la tomate, puis l’oignon → 3. Servez quand la jauge est dans le vert ! (E / UTILISER, A pour poser)',
+  'level.level1.instructions.2': 'W / X baissent et montent le feu. Trop chaud et le plat brûle !',
+  'level.level1.recipe': 'SOUPE DE TOMATES DU DIABLE',
+  'level.level2.title': 'NIVEAU 2',
+  'level.level2.instructions.0': 'Traversez le labyrinthe et frappez à la PORTE (E / UTILISER).',
+  'level.level2.prompt': 'Scannez pour trouver les ingrédients, puis nommez-les tous.',
+  'level.level3.title': 'NIVEAU 3',
+  'level.level3.instructions.0': '1. E / UTILISER : prenez la cuillère → 2. Approchez-vous de la marmite → 3. Remuez dans le SENS DES AIGUILLES, régulièrement et pas trop vite !',
+  'level.level3.instructions.1': 'Dessinez des cercles sur la marmite, ou maintenez E / Espace et appuyez sur → (← fait reculer). Arrêtez-vous et la soupe retombe.',
+  'level.level3.label.soup': 'SOUPE DE TOMATES',
+  'level.level1-coop.title': 'NIVEAU 1 COOP',
+  'level.level1-coop.instructions.0': 'Joueur 1 : flèches, ENTRÉE pour utiliser, MAJ droite pour poser. Joueur 2 : ZQSD, E pour utiliser, A pour poser.',
+  'level.level1-coop.instructions.1': '1. L’un tient la marmite près du fourneau pendant que l’autre l’allume → 2. Ajoutez la tomate, puis l’oignon → 3. Servez dans le vert !',
+  'level.level1-coop.instructions.2': 'Feu : « : » et « ! » (joueur 1) ou W et X (joueur 2). Trop chaud et le plat brûle !',
+  'level.level1-coop.recipe': 'SOUPE DE TOMATES DU DIABLE',
+  'level.level2-coop.title': 'NIVEAU 2 COOP',
+  'level.level2-coop.instructions.0': 'Allez ensemble à la PORTE : l’un frappe et entre pour répondre, l’autre monte la garde.',
+  'level.level2-coop.instructions.1': 'Le garde reste près de la porte et esquive le diable avec les flèches, même pendant que l’autre tape. Au moindre coup, elle claque !',
+  'level.level2-coop.prompt': 'Scannez pour trouver les ingrédients, puis nommez-les tous.',
+  'level.level3-coop.title': 'NIVEAU 3 COOP',
+  'level.level3-coop.instructions.0': '1. Chacun prend une cuillère → 2. Approchez-vous de la grande marmite → 3. Remuez ensemble dans le SENS DES AIGUILLES, régulièrement et pas trop vite !',
+  'level.level3-coop.instructions.1': 'Joueur 1 : maintenez ENTRÉE + →. Joueur 2 : maintenez E + D. Ou dessinez des cercles sur la marmite. Deux cuillères la remplissent deux fois plus vite.',
+  'level.level3-coop.label.soup': 'GRANDE SOUPE DE TOMATES',
+};
@@ -0,0 +1,104 @@
+import React, { createContext, useContext, useEffect, useMemo } from 'react';
+import { en } from './en';
+import { fr } from './fr';
+import { ar } from './ar';
+import type { LevelDefinition } from '../levels/schema';
+
+// --- CATALOGUES ---
+export type Locale = 'en' | 'fr' | 'ar';
+
+export type MessageKey = keyof typeof en;
+// Plural forms as named by Intl.PluralRules; `other` is always required
+export type Plural = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | Plural;
+export type Catalogue = Record<MessageKey, Message>;
+export type Params = Record<string, string | number>;
+
+// Each language's own name, for the picker
+export const LOCALES: { id: Locale, label: string, dir: 'ltr' | 'rtl' }[] = [
+  { id: 'en', label: 'ENGLISH', dir: 'ltr' },
+  { id: 'fr', label: 'FRANÇAIS', dir: 'ltr' },
+  { id: 'ar', label: 'العربية', dir: 'rtl' },
+];
+
+const CATALOGUES: Record<Locale, Catalogue> = { en, fr, ar };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.id === value);
+
+// The browser's preferred language if we have it, else English
+export const detectLocale = (): Locale => {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  for (const tag of preferred) {
+    const lang = tag.split('-')[0];
+    if (isLocale(lang)) return lang;
+  }
+  return 'en';
+};
+
+const interpolate = (text: string, params: Params) =>
+  text.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+
+const pick = (locale: Locale, message: Message, params: Params) => {
+  if (typeof message === 'string') return message;
+  const form = new Intl.PluralRules(locale).select(Number(params.count ?? 0));
+  return message[form] ?? message.other;
+};
+
+/** Looks `key` up for `locale`, falling back to English, and fills in `params`. */
+export const translate = (locale: Locale, key: MessageKey, params: Params = {}) =>
+  interpolate(pick(locale, CATALOGUES[locale][key] ?? en[key], params), params);
+
+// For keys built from data, e.g. a level's id or a rule's prompt; unknown keys give back `fallback`
+const translateLoose = (locale: Locale, key: string, fallback: string, params: Params = {}) =>
+  key in en ? translate(locale, key as MessageKey, params) : interpolate(fallback, params);
+
+// --- REACT ---
+export type I18n = {
+  locale: Locale;
+  dir: 'ltr' | 'rtl';
+  t: (key: MessageKey, params?: Params) => string;
+  tr: (key: string, fallback: string, params?: Params) => string;
+};
+
+const makeI18n = (locale: Locale): I18n => ({
+  locale,
+  dir: LOCALES.find(l => l.id === locale)?.dir ?? 'ltr',
+  t: (key, params) => translate(locale, key, params),
+  tr: (key, fallback, params) => translateLoose(locale, key, fallback, params),
+});
+
+const I18nContext = createContext<I18n>(makeI18n('en'));
+
+export const I18nProvider = ({ locale, children }: { locale: Locale, children: React.ReactNode }) => {
+  const value = useMemo(() => makeI18n(locale), [locale]);
+
+  // The whole page flips for Arabic, including the scrollbar side and default text alignment
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = value.dir;
+  }, [locale, value.dir]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => useContext(I18nContext);
+
+// --- LEVELS ---
+/**
+ * A level's player-facing text in the current language. The catalogue only knows the shipped levels,
+ * and only as written: a level changed in the editor keeps its own (untranslated) text.
+ */
+export const localizeLevel = ({ tr }: I18n, level: LevelDefinition) => {
+  const text = (path: string, original: string) => {
+    const key = `level.${level.id}.${path}`;
+    return key in en && en[key as MessageKey] === original ? tr(key, original) : original;
+  };
+  const { win } = level;
+  return {
+    title: text('title', level.title),
+    instructions: level.instructions.map((line, i) => text(`instructions.${i}`, line)),
+    prompt: win.type === 'riddle' ? text('prompt', win.prompt) : '',
+    recipe: win.type === 'cook' && win.recipe ? text('recipe', win.recipe.name) : '',
+    label: (id: string, original: string) => text(`label.${id}`, original),
+  };
+};
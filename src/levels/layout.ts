@@ -0,0 +1,80 @@
+import { GAME_WIDTH, GAME_HEIGHT, PLAYER_SIZE, GRID_SIZE } from '../game/constants';
+import type { Obstacle } from '../game/movement';
+import { ENEMY_SIZE } from '../game/hazards';
+import type { DecorKind, InteractableKind, LevelDefinition } from './schema';
+
+// On-board footprint of each sprite, matching the classes in components/sprites.tsx
+export const INTERACTABLE_SIZE: Record<InteractableKind, { w: number, h: number }> = {
+  pot: { w: 64, h: 40 },
+  spoon: { w: 48, h: 16 },
+  tomato: { w: 32, h: 32 },
+  onion: { w: 32, h: 32 },
+  garlic: { w: 32, h: 32 },
+  basil: { w: 32, h: 32 },
+  stove: { w: 128, h: 96 },
+  door: { w: 96, h: 128 },
+  cauldron: { w: 192, h: 192 },
+};
+
+export const DECOR_SIZE: Record<DecorKind, { w: number, h: number }> = {
+  devil: { w: 48, h: 64 },
+};
+
+export const snap = (v: number, grid = GRID_SIZE) => Math.round(v / grid) * grid;
+
+export type LayoutEntry = { label: string, rect: Obstacle, solid: boolean };
+
+// Everything that occupies space on the board. Decor sits behind the play area and may overlap freely.
+export const layoutEntries = (level: LevelDefinition): LayoutEntry[] => [
+  { label: 'spawn', rect: { ...level.spawn, w: PLAYER_SIZE, h: PLAYER_SIZE }, solid: true },
+  ...(level.coop ? [{ label: 'player 2 spawn', rect: { ...level.coop.spawn, w: PLAYER_SIZE, h: PLAYER_SIZE }, solid: true }] : []),
+  ...level.obstacles.map((obs, i) => ({ label: `rock #${i + 1}`, rect: obs, solid: true })),
+  ...level.interactables.map(it => ({ label: it.id, rect: { x: it.x, y: it.y, ...INTERACTABLE_SIZE[it.kind] }, solid: true })),
+  ...(level.enemies ?? []).map((en, i) => ({ label: `enemy #${i + 1}`, rect: { x: en.x, y: en.y, ...ENEMY_SIZE }, solid: true })),
+  ...level.decor.map((d, i) => ({ label: `${d.kind} #${i + 1}`, rect: { x: d.x, y: d.y, ...DECOR_SIZE[d.kind] }, solid: false })),
+];
+
+const overlaps = (a: Obstacle, b: Obstacle) =>
+  a.x < b.x + b.w && a.x + a.w > b.x &&
+  a.y < b.y + b.h && a.y + a.h > b.y;
+
+/**
+ * Editor warnings for a layout: objects leaving the board and solid objects stacked on each other.
+ * These don't make a level invalid, but they are almost always a placement mistake.
+ */
+export const findLayoutIssues = (level: LevelDefinition): string[] => {
+  const issues: string[] = [];
+  const entries = layoutEntries(level);
+
+  entries.forEach(({ label, rect }) => {
+    if (rect.x < 0 || rect.y < 0 || rect.x + rect.w > GAME_WIDTH || rect.y + rect.h > GAME_HEIGHT) {
+      issues.push(`${label} is out of bounds`);
+    }
+  });
+
+  const solid = entries.filter(e => e.solid);
+  for (let i = 0; i < solid.length; i++) {
+    for (let j = i + 1; j < solid.length; j++) {
+      if (overlaps(solid[i].rect, solid[j].rect)) {
+        issues.push(`${solid[i].label} overlaps ${solid[j].label}`);
+      }
+    }
+  }
+
+  return issues;
+};
+
+export const createBlankLevel = (): LevelDefinition => ({
+  id: 'custom',
+  title: 'CUSTOM LEVEL',
+  instructions: ['Arrows / WASD to move.'],
+  spawn: { x: 64, y: 128 },
+  lava: true,
+  obstacles: [],
+  decor: [],
+  interactables: [
+    { id: 'pot', kind: 'pot', x: 256, y: 128 },
+    { id: 'stove', kind: 'stove', x: 576, y: 128 },
+  ],
+  win: { type: 'cook', stove: 'stove', item: 'pot', delayMs: 1500 },
+});
@@ -0,0 +1,17 @@
+import { validateLevel, type LevelDefinition } from './schema';
+import level1 from './data/level1.json';
+import level2 from './data/level2.json';
+import level3 from './data/level3.json';
+import level1Coop from './data/level1-coop.json';
+import level2Coop from './data/level2-coop.json';
+import level3Coop from './data/level3-coop.json';
+
+// Play order. Add a JSON file to ./data and list it here to ship a new level.
+export const LEVEL_MANIFEST: unknown[] = [level1, level2, level3];
+
+export const LEVELS: LevelDefinition[] = LEVEL_MANIFEST.map(validateLevel);
+
+// Two-player variants, one per solo level and in the same order, so a run can switch between them
+export const COOP_LEVEL_MANIFEST: unknown[] = [level1Coop, level2Coop, level3Coop];
+
+export const COOP_LEVELS: LevelDefinition[] = COOP_LEVEL_MANIFEST.map(validateLevel);
@@ -0,0 +1,309 @@
+import { GAME_WIDTH, GAME_HEIGHT, PLAYER_SIZE } from '../game/constants';
+import type { Obstacle, Vec2 } from '../game/movement';
+
+// --- LEVEL SCHEMA ---
+export type IngredientKind = 'tomato' | 'onion' | 'garlic' | 'basil';
+export type ItemKind = 'pot' | 'spoon' | IngredientKind;
+export type InteractableKind = ItemKind | 'stove' | 'door' | 'cauldron';
+
+// One thing the player can do at an interactable with the interact key
+export type InteractionRule = {
+  // Shown after the key in the on-screen prompt, e.g. "place pot on stove"
+  prompt: string;
+  // States the rule applies in; any state when omitted
+  from?: string[];
+  // Item taken out of the inventory and put into the interactable
+  takes?: ItemKind;
+  // Item handed to the player
+  gives?: ItemKind;
+  // State afterwards; unchanged when omitted
+  to?: string;
+  // Co-op only: the other player has to be in range too, holding `holding` if given, which goes into the interactable
+  assist?: { holding?: ItemKind };
+};
+
+export type Interactable = {
+  id: string;
+  kind: InteractableKind;
+  x: number;
+  y: number;
+  // Distance from the player at which the interaction triggers
+  radius?: number;
+  label?: string;
+  // Starting state, 'idle' when omitted
+  state?: string;
+  // Replaces the kind's default rules (game/interactions.ts), e.g. for multi-step recipes
+  interactions?: InteractionRule[];
+};
+
+export type DecorKind = 'devil';
+export type Decor = { kind: DecorKind, x: number, y: number, flip?: boolean };
+
+export type Enemy = {
+  kind: 'devil';
+  x: number;
+  y: number;
+  // Waypoints patrolled in a loop; without any the devil guards its starting spot
+  path?: Vec2[];
+  // Pixels per second while patrolling
+  speed?: number;
+  // Distance at which it spots the player and gives chase
+  sight?: number;
+};
+
+export type Recipe = {
+  name: string;
+  ingredients: IngredientKind[];
+  // Whether the ingredients must go in in the listed order
+  ordered?: boolean;
+  // Cook meter range (0..100) the dish must be served in
+  doneness: { min: number, max: number };
+};
+
+// Which way round the spoon has to go, as seen on screen
+export type StirDirection = 'cw' | 'ccw';
+
+export type WinCondition =
+  // Without a recipe, putting `item` on the stove is enough
+  | { type: 'cook', stove: string, item: ItemKind, recipe?: Recipe, delayMs?: number }
+  // `puzzle` is the id of the answer key held by the server (server/puzzles.ts), or 'daily' for one
+  // generated each day (server/puzzleStore.ts). The QR code links to the puzzle's clue page on this
+  // server unless `qrUrl` points somewhere else.
+  | { type: 'riddle', door: string, qrUrl?: string, prompt: string, puzzle: string }
+  // `target` is in stirring points, 20 per clean turn (game/stirring.ts); `direction` defaults to clockwise
+  | { type: 'stir', cauldron: string, tool: ItemKind, target: number, direction?: StirDirection, delayMs?: number }
+  // Finished when interactable `target` reaches `state`, for recipes built from interaction rules
+  | { type: 'state', target: string, state: string, delayMs?: number };
+
+export type LevelDefinition = {
+  id: string;
+  title: string;
+  instructions: string[];
+  spawn: Vec2;
+  lava: boolean;
+  obstacles: Obstacle[];
+  decor: Decor[];
+  interactables: Interactable[];
+  enemies?: Enemy[];
+  // Hearts the player starts with
+  health?: number;
+  // Items the player can carry at once
+  carryLimit?: number;
+  // A two-player level: where the second demon starts. Such levels can't be played alone.
+  coop?: { spawn: Vec2 };
+  win: WinCondition;
+};
+
+export const DEFAULT_RADIUS: Record<InteractableKind, number> = {
+  pot: 80,
+  spoon: 80,
+  tomato: 80,
+  onion: 80,
+  garlic: 80,
+  basil: 80,
+  stove: 150,
+  door: 150,
+  cauldron: 250,
+};
+
+export const INGREDIENT_KINDS: IngredientKind[] = ['tomato', 'onion', 'garlic', 'basil'];
+export const ITEM_KINDS: ItemKind[] = ['pot', 'spoon', ...INGREDIENT_KINDS];
+export const INTERACTABLE_KINDS: InteractableKind[] = [...ITEM_KINDS, 'stove', 'door', 'cauldron'];
+
+export const isItemKind = (kind: string): kind is ItemKind => ITEM_KINDS.includes(kind as ItemKind);
+export const isIngredientKind = (kind: string): kind is IngredientKind => INGREDIENT_KINDS.includes(kind as IngredientKind);
+const DECOR_KINDS: DecorKind[] = ['devil'];
+export const STIR_DIRECTIONS: StirDirection[] = ['cw', 'ccw'];
+
+export const interactionRadius = (it: Interactable) => it.radius ?? DEFAULT_RADIUS[it.kind];
+
+export const playerCount = (level: LevelDefinition) => (level.coop ? 2 : 1);
+export const spawnsOf = (level: LevelDefinition): Vec2[] => (level.coop ? [level.spawn, level.coop.spawn] : [level.spawn]);
+
+// --- VALIDATION ---
+export class LevelValidationError extends Error {
+  constructor(public levelId: string, public issues: string[]) {
+    super(`Invalid level "${levelId}":\n  - ${issues.join('\n  - ')}`);
+    this.name = 'LevelValidationError';
+  }
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNum = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isStr = (v: unknown): v is string => typeof v === 'string' && v.length > 0;
+
+const inBounds = (x: number, y: number, w: number, h: number) =>
+  x >= 0 && y >= 0 && x + w <= GAME_WIDTH && y + h <= GAME_HEIGHT;
+
+/**
+ * Checks a raw (parsed JSON) level against the schema and returns it typed.
+ * Collects every problem it finds instead of stopping at the first one.
+ */
+export const validateLevel = (raw: unknown): LevelDefinition => {
+  const issues: string[] = [];
+  if (!isObject(raw)) throw new LevelValidationError('?', ['level must be an object']);
+  const id = isStr(raw.id) ? raw.id : '?';
+
+  if (!isStr(raw.id)) issues.push('id must be a non-empty string');
+  if (!isStr(raw.title)) issues.push('title must be a non-empty string');
+  if (!Array.isArray(raw.instructions) || !raw.instructions.every(isStr)) {
+    issues.push('instructions must be an array of strings');
+  }
+  if (typeof raw.lava !== 'boolean') issues.push('lava must be a boolean');
+
+  const checkSpawn = (spawn: unknown, field: string) => {
+    if (!isObject(spawn) || !isNum(spawn.x) || !isNum(spawn.y)) {
+      issues.push(`${field} must be { x, y }`);
+    } else if (!inBounds(spawn.x, spawn.y, PLAYER_SIZE, PLAYER_SIZE)) {
+      issues.push(`${field} (${spawn.x}, ${spawn.y}) is outside the board`);
+    }
+  };
+  checkSpawn(raw.spawn, 'spawn');
+  if (raw.coop !== undefined) {
+    if (!isObject(raw.coop)) issues.push('coop must be { spawn }');
+    else checkSpawn(raw.coop.spawn, 'coop.spawn');
+  }
+
+  if (!Array.isArray(raw.obstacles)) {
+    issues.push('obstacles must be an array');
+  } else {
+    raw.obstacles.forEach((obs, i) => {
+      if (!isObject(obs) || !isNum(obs.x) || !isNum(obs.y) || !isNum(obs.w) || !isNum(obs.h)) {
+        issues.push(`obstacles[${i}] must be { x, y, w, h }`);
+      } else if (obs.w <= 0 || obs.h <= 0) {
+        issues.push(`obstacles[${i}] must have a positive size`);
+      } else if (!inBounds(obs.x, obs.y, obs.w, obs.h)) {
+        issues.push(`obstacles[${i}] is outside the board`);
+      }
+    });
+  }
+
+  if (!Array.isArray(raw.decor)) {
+    issues.push('decor must be an array');
+  } else {
+    raw.decor.forEach((d, i) => {
+      if (!isObject(d) || !DECOR_KINDS.includes(d.kind as DecorKind) || !isNum(d.x) || !isNum(d.y)) {
+        issues.push(`decor[${i}] must be { kind: ${DECOR_KINDS.join(' | ')}, x, y }`);
+      }
+    });
+  }
+
+  if (raw.health !== undefined && (!Number.isInteger(raw.health) || (raw.health as number) < 1)) {
+    issues.push('health must be a positive integer');
+  }
+  if (raw.carryLimit !== undefined && (!Number.isInteger(raw.carryLimit) || (raw.carryLimit as number) < 1)) {
+    issues.push('carryLimit must be a positive integer');
+  }
+
+  const enemies = raw.enemies ?? [];
+  if (!Array.isArray(enemies)) {
+    issues.push('enemies must be an array');
+  } else {
+    enemies.forEach((en, i) => {
+      if (!isObject(en) || en.kind !== 'devil' || !isNum(en.x) || !isNum(en.y)) {
+        issues.push(`enemies[${i}] must be { kind: devil, x, y }`);
+        return;
+      }
+      if (en.path !== undefined && (!Array.isArray(en.path) || !en.path.every(p => isObject(p) && isNum(p.x) && isNum(p.y)))) {
+        issues.push(`enemies[${i}].path must be an array of { x, y }`);
+      }
+      if (en.speed !== undefined && (!isNum(en.speed) || en.speed <= 0)) issues.push(`enemies[${i}].speed must be a positive number`);
+      if (en.sight !== undefined && (!isNum(en.sight) || en.sight < 0)) issues.push(`enemies[${i}].sight must be a non-negative number`);
+    });
+  }
+
+  const byId = new Map<string, InteractableKind>();
+  if (!Array.isArray(raw.interactables)) {
+    issues.push('interactables must be an array');
+  } else {
+    raw.interactables.forEach((it, i) => {
+      if (!isObject(it) || !isStr(it.id) || !INTERACTABLE_KINDS.includes(it.kind as InteractableKind) || !isNum(it.x) || !isNum(it.y)) {
+        issues.push(`interactables[${i}] must be { id, kind: ${INTERACTABLE_KINDS.join(' | ')}, x, y }`);
+        return;
+      }
+      if (it.radius !== undefined && (!isNum(it.radius) || it.radius <= 0)) {
+        issues.push(`interactables[${i}] radius must be a positive number`);
+      }
+      if (it.state !== undefined && !isStr(it.state)) issues.push(`interactables[${i}] state must be a string`);
+      if (it.interactions !== undefined) {
+        if (!Array.isArray(it.interactions)) {
+          issues.push(`interactables[${i}] interactions must be an array`);
+        } else {
+          it.interactions.forEach((rule, j) => {
+            const where = `interactables[${i}].interactions[${j}]`;
+            if (!isObject(rule) || !isStr(rule.prompt)) {
+              issues.push(`${where} must have a prompt`);
+              return;
+            }
+            if (rule.from !== undefined && (!Array.isArray(rule.from) || !rule.from.every(isStr))) issues.push(`${where}.from must be an array of states`);
+            if (rule.takes !== undefined && !isItemKind(rule.takes as string)) issues.push(`${where}.takes must be one of ${ITEM_KINDS.join(', ')}`);
+            if (rule.gives !== undefined && !isItemKind(rule.gives as string)) issues.push(`${where}.gives must be one of ${ITEM_KINDS.join(', ')}`);
+            if (rule.to !== undefined && !isStr(rule.to)) issues.push(`${where}.to must be a state name`);
+            if (rule.assist !== undefined) {
+              if (!isObject(rule.assist)) issues.push(`${where}.assist must be an object`);
+              else if (rule.assist.holding !== undefined && !isItemKind(rule.assist.holding as string)) issues.push(`${where}.assist.holding must be one of ${ITEM_KINDS.join(', ')}`);
+              else if (raw.coop === undefined) issues.push(`${where}.assist needs a second player; give the level a coop spawn`);
+            }
+          });
+        }
+      }
+      if (byId.has(it.id)) issues.push(`duplicate interactable id "${it.id}"`);
+      byId.set(it.id, it.kind as InteractableKind);
+    });
+  }
+
+  const expectKind = (ref: unknown, kind: InteractableKind, field: string) => {
+    if (!isStr(ref) || byId.get(ref) !== kind) {
+      issues.push(`win.${field} must reference a ${kind} interactable`);
+    }
+  };
+  const expectItem = (ref: unknown, field: string) => {
+    if (!ITEM_KINDS.includes(ref as ItemKind)) {
+      issues.push(`win.${field} must be one of ${ITEM_KINDS.join(', ')}`);
+    } else if (![...byId.values()].includes(ref as ItemKind)) {
+      issues.push(`win.${field} "${ref}" is never placed in the level`);
+    }
+  };
+
+  const win = raw.win;
+  if (!isObject(win)) {
+    issues.push('win must be an object');
+  } else if (win.type === 'cook') {
+    expectKind(win.stove, 'stove', 'stove');
+    expectItem(win.item, 'item');
+    if (win.recipe !== undefined) {
+      const recipe = win.recipe;
+      if (!isObject(recipe) || !isStr(recipe.name)) {
+        issues.push('win.recipe must have a name');
+      } else {
+        if (!Array.isArray(recipe.ingredients) || recipe.ingredients.length === 0 || !recipe.ingredients.every(k => INGREDIENT_KINDS.includes(k))) {
+          issues.push(`win.recipe.ingredients must be a non-empty list of ${INGREDIENT_KINDS.join(', ')}`);
+        } else {
+          recipe.ingredients.forEach(k => expectItem(k, 'recipe.ingredients'));
+        }
+        const d = recipe.doneness;
+        if (!isObject(d) || !isNum(d.min) || !isNum(d.max) || d.min < 0 || d.min >= d.max || d.max >= 100) {
+          issues.push('win.recipe.doneness must be { min, max } with 0 <= min < max < 100');
+        }
+      }
+    }
+  } else if (win.type === 'riddle') {
+    expectKind(win.door, 'door', 'door');
+    if (win.qrUrl !== undefined && !isStr(win.qrUrl)) issues.push('win.qrUrl must be a string');
+    if (!isStr(win.prompt)) issues.push('win.prompt must be a string');
+    if (!isStr(win.puzzle)) issues.push('win.puzzle must be a puzzle id');
+  } else if (win.type === 'stir') {
+    expectKind(win.cauldron, 'cauldron', 'cauldron');
+    expectItem(win.tool, 'tool');
+    if (!isNum(win.target) || win.target <= 0) issues.push('win.target must be a positive number');
+    if (win.direction !== undefined && !STIR_DIRECTIONS.includes(win.direction as StirDirection)) issues.push(`win.direction must be one of ${STIR_DIRECTIONS.join(', ')}`);
+  } else if (win.type === 'state') {
+    if (!isStr(win.target) || !byId.has(win.target)) issues.push('win.target must reference an interactable');
+    if (!isStr(win.state)) issues.push('win.state must be a state name');
+  } else {
+    issues.push('win.type must be one of cook, riddle, stir, state');
+  }
+
+  if (issues.length > 0) throw new LevelValidationError(id, issues);
+  return raw as unknown as LevelDefinition;
+};
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { LEVELS, COOP_LEVELS } from './manifest';
+import { checkReachability, findReachabilityIssues } from './solvability';
+
+// Every shipped level has to be finishable from its spawn
+describe.each([...LEVELS, ...COOP_LEVELS])('$id', level => {
+  it('can be finished from the spawn', () => {
+    expect(findReachabilityIssues(level)).toEqual([]);
+    expect(checkReachability(level).solvable).toBe(true);
+  });
+});
+
+describe('a broken level', () => {
+  const level2 = LEVELS.find(l => l.id === 'level2')!;
+
+  it('fails when the spawn is inside a rock', () => {
+    const level = { ...level2, spawn: { x: 260, y: 100 } };
+    expect(checkReachability(level)).toMatchObject({ spawnBlocked: true, solvable: false });
+    expect(findReachabilityIssues(level)).toEqual(['spawn is stuck inside a rock or the lava']);
+  });
+
+  it('fails when the door is walled off', () => {
+    // Closes the gap above the second rock, leaving a wall from the top of the board to the lava
+    const level = { ...level2, obstacles: [...level2.obstacles, { x: 450, y: 0, w: 64, h: 150 }] };
+    expect(checkReachability(level)).toMatchObject({ spawnBlocked: false, solvable: false });
+    expect(findReachabilityIssues(level)).toEqual(["door can't be reached from the spawn"]);
+  });
+});
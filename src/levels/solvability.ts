@@ -0,0 +1,88 @@
+import { PLAYER_SIZE } from '../game/constants';
+import { checkDist } from '../game/movement';
+import { buildGrid, flood, isFree, isReached, toCell, type Grid } from '../game/grid';
+import { inLava } from '../game/hazards';
+import { interactionsOf } from '../game/interactions';
+import { interactionRadius, spawnsOf, type Interactable, type LevelDefinition } from './schema';
+
+// Matches the movement sub-step, so any gap the player can squeeze through at full speed shows up on the grid
+const REACH_CELL = 4;
+
+export type Reachability = {
+  // A spawn is inside a rock or burning lava, so nothing is reachable from it
+  spawnBlocked: boolean;
+  // Every interactable the win condition needs, in the order they are used
+  required: Interactable[];
+  unreachable: Interactable[];
+  solvable: boolean;
+};
+
+// What the player has to touch to finish the level: the item or tool (any copy of it) and its destination
+export const requiredInteractables = (level: LevelDefinition): Interactable[] => {
+  const { win, interactables } = level;
+  const byId = (id: string) => interactables.filter(it => it.id === id);
+  const ofKind = (kind: string) => interactables.filter(it => it.kind === kind);
+  switch (win.type) {
+    case 'cook': return [...ofKind(win.item), ...[...new Set(win.recipe?.ingredients)].flatMap(ofKind), ...byId(win.stove)];
+    case 'riddle': return byId(win.door);
+    case 'stir': return [...ofKind(win.tool), ...byId(win.cauldron)];
+    // The target plus every item its rules ask for, from either player
+    case 'state': {
+      const takes = byId(win.target).flatMap(it => interactionsOf(it).flatMap(r => [r.takes, r.assist?.holding].filter(k => k !== undefined)));
+      return [...new Set(takes)].flatMap(ofKind).concat(byId(win.target));
+    }
+  }
+};
+
+/**
+ * Rasterizes the rocks for the player's hitbox, with lava deep enough to burn treated as a wall, and
+ * floods from the spawn. Devils are ignored: they move and only cost hearts.
+ */
+export const buildReachGrid = (level: LevelDefinition): Grid => {
+  const grid = buildGrid(level.obstacles, { w: PLAYER_SIZE, h: PLAYER_SIZE }, REACH_CELL);
+  if (!level.lava) return grid;
+  const blocked = grid.blocked.map((b, i) =>
+    b || inLava({ x: (i % grid.cols) * grid.cell, y: Math.floor(i / grid.cols) * grid.cell }));
+  return { ...grid, blocked };
+};
+
+const canReach = (grid: Grid, came: Int32Array, it: Interactable) => {
+  const radius = interactionRadius(it);
+  for (let row = 0; row < grid.rows; row++) {
+    for (let col = 0; col < grid.cols; col++) {
+      if (isReached(came, grid, col, row) && checkDist({ x: col * grid.cell, y: row * grid.cell }, it, radius)) return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * In co-op either player may fetch a thing, but an interactable with an assisted rule needs both of them
+ * to get there. Players blocking each other in a narrow gap isn't modelled.
+ */
+export const checkReachability = (level: LevelDefinition): Reachability => {
+  const grid = buildReachGrid(level);
+  const spawns = spawnsOf(level);
+  const floods = spawns.map(spawn => flood(grid, spawn));
+  const required = requiredInteractables(level);
+  const unreachable = required.filter(it => {
+    const reached = floods.map(came => canReach(grid, came, it));
+    return interactionsOf(it).some(r => r.assist) ? !reached.every(Boolean) : !reached.some(Boolean);
+  });
+
+  // Any one copy of the item will do, so a level only fails when a whole kind is out of reach
+  const solvable = required.every(it => !unreachable.includes(it) || required.some(r => r.kind === it.kind && !unreachable.includes(r)));
+  const spawnBlocked = spawns.some(spawn => {
+    const start = toCell(grid, spawn);
+    return !isFree(grid, start.col, start.row);
+  });
+  return { spawnBlocked, required, unreachable, solvable };
+};
+
+/** Editor warnings for a level that can't be finished, e.g. a door sealed off by rocks. */
+export const findReachabilityIssues = (level: LevelDefinition): string[] => {
+  const { spawnBlocked, unreachable, solvable } = checkReachability(level);
+  if (solvable) return [];
+  if (spawnBlocked) return ['spawn is stuck inside a rock or the lava'];
+  return unreachable.map(it => `${it.id} can't be reached from the spawn`);
+};
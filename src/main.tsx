@@ -1,10 +1,22 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import {CluePage} from './components/CluePage';
+import {HostDashboard} from './components/HostDashboard';
+import {CLUE_PATH} from './api/puzzles';
+import {HOST_PATH} from './api/sessions';
+import {I18nProvider} from './i18n';
+import {loadSave} from './game/save';
 import './index.css';
 
+// The riddle door's QR code opens /clues/<puzzle> on a phone, in the language saved there or the phone's own;
+// event hosts run /host; everything else is the game
+const {pathname} = window.location;
+const cluePuzzle = pathname.startsWith(CLUE_PATH) ? decodeURIComponent(pathname.slice(CLUE_PATH.length)) : null;
+const hosting = pathname === HOST_PATH;
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {cluePuzzle ? <I18nProvider locale={loadSave().settings.locale}><CluePage puzzleId={cluePuzzle} /></I18nProvider> : hosting ? <HostDashboard /> : <App />}
   </StrictMode>,
 );
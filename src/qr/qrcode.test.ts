@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { encodeQr, QrTooLongError, type QrCode } from './qrcode';
+
+const draw = ({ modules }: QrCode) => modules.map(row => row.map(dark => (dark ? '#' : '.')).join(''));
+
+// The first copy of the format bits, most significant first, read around the top-left finder
+const formatBits = ({ modules }: QrCode) =>
+  [...[0, 1, 2, 3, 4, 5, 7, 8].map(x => modules[8][x]), ...[7, 5, 4, 3, 2, 1, 0].map(y => modules[y][8])]
+    .reduce((bits, dark) => (bits << 1) | (dark ? 1 : 0), 0);
+
+// The version block above the bottom-left finder and its mirror right of the top-left one
+const versionBits = ({ size, modules }: QrCode, mirrored: boolean) => {
+  let bits = 0;
+  for (let i = 0; i < 18; i++) {
+    const a = size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    if (mirrored ? modules[a][b] : modules[b][a]) bits |= 1 << i;
+  }
+  return bits;
+};
+
+// ISO/IEC 18004 table C.1: format information for level M with each mask, and table D.1 for version 7
+const LEVEL_M_FORMATS = [0x5412, 0x5125, 0x5e7c, 0x5b4b, 0x45f9, 0x40ce, 0x4f97, 0x4aa0];
+const VERSION_7 = 0x07c94;
+
+describe('encodeQr', () => {
+  it('draws the same modules as a reference encoder', () => {
+    // From the qrcode package (1.5.4) in byte mode at level M, which also picked mask 2
+    expect(draw(encodeQr('http://localhost:3000/clues/daily'))).toEqual([
+      '#######..#.##..##.###.#######',
+      '#.....#..........##.#.#.....#',
+      '#.###.#.#####.#.#..##.#.###.#',
+      '#.###.#.##.#....##.#..#.###.#',
+      '#.###.#.##..####.###..#.###.#',
+      '#.....#.#..######.....#.....#',
+      '#######.#.#.#.#.#.#.#.#######',
+      '........#.#.##.#..#..........',
+      '#.#####....##.##.#..#.#####..',
+      '#....#..#.##...##..#.####...#',
+      '.##.###.....#........##.#....',
+      '.##.##.#.#.#..#.#....#.#...#.',
+      '##.#..##...#.....#..#....##..',
+      '.#.##..#####.###..##.####.#.#',
+      '..#.#.#..##.#####.....###.#..',
+      '..##.....#####.#......#.#..#.',
+      '#########..##.#.##..#.....#..',
+      '##.###..#.#.....#..#..#####.#',
+      '#.##..#...##...#.##.##.#.##..',
+      '#..#.#..##....###..#..#.#..#.',
+      '#.##.###.#.#.....##.#####.###',
+      '........###..##.#####...#####',
+      '#######...#..#####.##.#.###..',
+      '#.....#.######.#....#...##...',
+      '#.###.#.###.#.#..#..#####.##.',
+      '#.###.#.##.#....#.#.#....####',
+      '#.###.#.##..##.##...#.###..#.',
+      '#.....#..###..##..###..#.#.#.',
+      '#######.#.#.#.##.#...#.#..#..',
+    ]);
+  });
+
+  it('writes the format bits for level M and the chosen mask', () => {
+    const qr = encodeQr('http://localhost:3000/clues/daily');
+    expect(formatBits(qr)).toBe(LEVEL_M_FORMATS[2]);
+  });
+
+  it('writes both copies of the version bits from version 7 up', () => {
+    const qr = encodeQr('https://hells-kitchen.example/clues/daily-2026-10-19@ABCD?from=door&lang=fr&ref=qr-code-on-the-riddle-door-level-two');
+    expect(qr.size).toBe(45);
+    expect(versionBits(qr, false)).toBe(VERSION_7);
+    expect(versionBits(qr, true)).toBe(VERSION_7);
+    // The reference encoder picked mask 1 for this one
+    expect(formatBits(qr)).toBe(LEVEL_M_FORMATS[1]);
+  });
+
+  it('picks the smallest version that fits', () => {
+    expect(encodeQr('').size).toBe(21);
+    expect(encodeQr('x'.repeat(14)).size).toBe(21);
+    expect(encodeQr('x'.repeat(15)).size).toBe(25);
+  });
+
+  it('refuses text past version 40', () => {
+    expect(() => encodeQr('x'.repeat(2332))).toThrow(QrTooLongError);
+  });
+});
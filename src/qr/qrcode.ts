@@ -0,0 +1,321 @@
+// A self-contained QR code encoder (ISO/IEC 18004), so the riddle door works without reaching a
+// third-party image service. Byte mode only, error correction level M, versions 1-40.
+
+export type QrCode = {
+  // Modules per side, without the quiet zone
+  size: number;
+  // modules[y][x] is true for a dark module
+  modules: boolean[][];
+};
+
+export class QrTooLongError extends Error {
+  constructor(length: number) {
+    super(`${length} bytes is too long for a QR code`);
+    this.name = 'QrTooLongError';
+  }
+}
+
+// --- TABLES (level M) ---
+// Indexed by version; index 0 is unused
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26,
+  26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+];
+const ECC_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+  17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+];
+// The two format bits that name level M
+const ECC_FORMAT_BITS = 0;
+const MAX_VERSION = 40;
+
+const bit = (x: number, i: number) => ((x >>> i) & 1) !== 0;
+
+// Modules left for data and error correction once the function patterns are drawn
+const rawDataModules = (ver: number) => {
+  let result = (16 * ver + 128) * ver + 64;
+  if (ver >= 2) {
+    const align = Math.floor(ver / 7) + 2;
+    result -= (25 * align - 10) * align - 55;
+    if (ver >= 7) result -= 36;
+  }
+  return result;
+};
+
+const dataCodewords = (ver: number) =>
+  Math.floor(rawDataModules(ver) / 8) - ECC_CODEWORDS_PER_BLOCK[ver] * ECC_BLOCKS[ver];
+
+const alignmentPositions = (ver: number, size: number) => {
+  if (ver === 1) return [];
+  const count = Math.floor(ver / 7) + 2;
+  const step = Math.floor((ver * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < count; pos -= step) result.splice(1, 0, pos);
+  return result;
+};
+
+// --- REED-SOLOMON ---
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const rsDivisor = (degree: number) => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const rsRemainder = (data: number[], divisor: number[]) => {
+  const result = divisor.map(() => 0);
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => { result[i] ^= gfMultiply(coef, factor); });
+  }
+  return result;
+};
+
+// Splits the data into blocks, appends each block's error correction and interleaves them
+const addErrorCorrection = (data: number[], ver: number) => {
+  const blocks = ECC_BLOCKS[ver];
+  const eccLen = ECC_CODEWORDS_PER_BLOCK[ver];
+  const raw = Math.floor(rawDataModules(ver) / 8);
+  const shortBlocks = blocks - (raw % blocks);
+  const shortLen = Math.floor(raw / blocks);
+  const divisor = rsDivisor(eccLen);
+
+  const all: number[][] = [];
+  for (let i = 0, k = 0; i < blocks; i++) {
+    const dat = data.slice(k, k + shortLen - eccLen + (i < shortBlocks ? 0 : 1));
+    k += dat.length;
+    const ecc = rsRemainder(dat, divisor);
+    // Short blocks get a placeholder so every block lines up for interleaving
+    if (i < shortBlocks) dat.push(0);
+    all.push([...dat, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < all[0].length; i++) {
+    all.forEach((block, j) => {
+      if (i !== shortLen - eccLen || j >= shortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+// --- DATA ---
+const encodeData = (bytes: Uint8Array, ver: number) => {
+  const bits: boolean[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push(bit(value, i));
+  };
+  // Byte mode indicator, then the length
+  push(0b0100, 4);
+  push(bytes.length, ver <= 9 ? 8 : 16);
+  bytes.forEach(b => push(b, 8));
+
+  const capacity = dataCodewords(ver) * 8;
+  push(0, Math.min(4, capacity - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) push(pad, 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, b) => (acc << 1) | (b ? 1 : 0), 0));
+  }
+  return codewords;
+};
+
+const pickVersion = (length: number) => {
+  for (let ver = 1; ver <= MAX_VERSION; ver++) {
+    if (4 + (ver <= 9 ? 8 : 16) + length * 8 <= dataCodewords(ver) * 8) return ver;
+  }
+  throw new QrTooLongError(length);
+};
+
+// --- MATRIX ---
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+type Matrix = { size: number, modules: boolean[][], reserved: boolean[][] };
+
+const set = (m: Matrix, x: number, y: number, dark: boolean) => {
+  m.modules[y][x] = dark;
+  m.reserved[y][x] = true;
+};
+
+const drawFormatBits = (m: Matrix, mask: number) => {
+  const data = (ECC_FORMAT_BITS << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  const bits = ((data << 10) | rem) ^ 0x5412;
+  const { size } = m;
+
+  // Around the top-left finder
+  for (let i = 0; i <= 5; i++) set(m, 8, i, bit(bits, i));
+  set(m, 8, 7, bit(bits, 6));
+  set(m, 8, 8, bit(bits, 7));
+  set(m, 7, 8, bit(bits, 8));
+  for (let i = 9; i < 15; i++) set(m, 14 - i, 8, bit(bits, i));
+  // Split between the other two finders
+  for (let i = 0; i < 8; i++) set(m, size - 1 - i, 8, bit(bits, i));
+  for (let i = 8; i < 15; i++) set(m, 8, size - 15 + i, bit(bits, i));
+  set(m, 8, size - 8, true);
+};
+
+const drawVersionBits = (m: Matrix, ver: number) => {
+  if (ver < 7) return;
+  let rem = ver;
+  for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+  const bits = (ver << 12) | rem;
+  for (let i = 0; i < 18; i++) {
+    const a = m.size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    set(m, a, b, bit(bits, i));
+    set(m, b, a, bit(bits, i));
+  }
+};
+
+const drawFunctionPatterns = (m: Matrix, ver: number) => {
+  const { size } = m;
+  for (let i = 0; i < size; i++) {
+    set(m, 6, i, i % 2 === 0);
+    set(m, i, 6, i % 2 === 0);
+  }
+
+  const finder = (cx: number, cy: number) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) set(m, x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  };
+  finder(3, 3);
+  finder(size - 4, 3);
+  finder(3, size - 4);
+
+  const align = alignmentPositions(ver, size);
+  const last = align.length - 1;
+  align.forEach((ay, i) => align.forEach((ax, j) => {
+    // The three corners already hold finders
+    if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) set(m, ax + dx, ay + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }));
+
+  // Reserve the format area now; the real bits go in once the mask is chosen
+  drawFormatBits(m, 0);
+  drawVersionBits(m, ver);
+};
+
+// Fills the data modules in the standard zigzag, two columns at a time from the bottom right
+const drawCodewords = (m: Matrix, codewords: number[]) => {
+  const { size } = m;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (!m.reserved[y][x] && i < codewords.length * 8) {
+          m.modules[y][x] = bit(codewords[i >>> 3], 7 - (i & 7));
+          i++;
+        }
+      }
+    }
+  }
+};
+
+const applyMask = (m: Matrix, mask: number) => {
+  for (let y = 0; y < m.size; y++) {
+    for (let x = 0; x < m.size; x++) {
+      if (!m.reserved[y][x] && MASKS[mask](x, y)) m.modules[y][x] = !m.modules[y][x];
+    }
+  }
+};
+
+// Patterns that look like a finder (1:1:3:1:1 with a light margin) confuse scanners
+const FINDER_LIKE = ['10111010000', '00001011101'];
+
+const penalty = ({ size, modules }: Matrix) => {
+  let score = 0;
+  const lines: string[] = [];
+  for (let y = 0; y < size; y++) lines.push(modules[y].map(d => (d ? '1' : '0')).join(''));
+  for (let x = 0; x < size; x++) lines.push(modules.map(row => (row[x] ? '1' : '0')).join(''));
+
+  for (const line of lines) {
+    for (const run of line.match(/0{5,}|1{5,}/g) ?? []) score += 3 + run.length - 5;
+    for (const pattern of FINDER_LIKE) {
+      for (let i = line.indexOf(pattern); i >= 0; i = line.indexOf(pattern, i + 1)) score += 40;
+    }
+  }
+
+  let dark = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++;
+      if (x < size - 1 && y < size - 1) {
+        const c = modules[y][x];
+        if (modules[y][x + 1] === c && modules[y + 1][x] === c && modules[y + 1][x + 1] === c) score += 3;
+      }
+    }
+  }
+  const total = size * size;
+  score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return score;
+};
+
+/** Encodes `text` as UTF-8 in the smallest version that fits, with the mask that scans best. */
+export const encodeQr = (text: string): QrCode => {
+  const bytes = new TextEncoder().encode(text);
+  const ver = pickVersion(bytes.length);
+  const size = ver * 4 + 17;
+  const codewords = addErrorCorrection(encodeData(bytes, ver), ver);
+
+  const grid = () => Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const base: Matrix = { size, modules: grid(), reserved: grid() };
+  drawFunctionPatterns(base, ver);
+  drawCodewords(base, codewords);
+
+  let best: Matrix | null = null;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const m: Matrix = { size, modules: base.modules.map(row => [...row]), reserved: base.reserved };
+    applyMask(m, mask);
+    drawFormatBits(m, mask);
+    const score = penalty(m);
+    if (score < bestScore) {
+      best = m;
+      bestScore = score;
+    }
+  }
+  return { size, modules: (best as Matrix).modules };
+};
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface Window {
+  // Safari before 14.1 only has the prefixed constructor
+  webkitAudioContext?: typeof AudioContext;
+}
@@ -7,8 +7,9 @@ export default defineConfig(({mode}) => {
   const env = loadEnv(mode, '.', '');
   return {
     plugins: [react(), tailwindcss()],
+    // GEMINI_API_KEY stays on the server (server/geminiRiddles.ts) and must not be baked into the bundle
     define: {
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+      'process.env.APP_URL': JSON.stringify(env.APP_URL),
     },
     resolve: {
       alias: {